@@ -1,5 +1,39 @@
 import { z } from "zod";
+import {
+  type CacheBackend,
+  type CacheEntry,
+  type CacheStats,
+  type CacheValidators,
+  createCacheBackendFromEnv,
+  createCacheTtlFromEnv,
+} from "./cache.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker.js";
 import { CONFIG, ENDPOINTS } from "./config.js";
+import {
+  ApiError,
+  CircuitOpenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamServerError,
+  ValidationFailedError,
+} from "./errors.js";
+import { querySnapshot } from "./local-query.js";
+import { logger, runOutsideLogContext } from "./logger.js";
+import {
+  cacheRequestsTotal,
+  cacheRevalidationsTotal,
+  endpointLabel,
+  upstreamCoalescedRequestsTotal,
+  upstreamRequestDuration,
+  upstreamRequestsTotal,
+  upstreamRetriesTotal,
+} from "./metrics.js";
 import {
   LocationSchema,
   MonumentSchema,
@@ -8,6 +42,8 @@ import {
   PoetsResponseSchema,
   SourceSchema,
 } from "./schemas.js";
+import { SingleFlight } from "./single-flight.js";
+import type { SnapshotBundle } from "./snapshot.js";
 import type {
   InscriptionsResponse,
   Location,
@@ -18,16 +54,107 @@ import type {
   Source,
 } from "./types.js";
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  size: number;
-  lastAccessed: number;
+const log = logger.child({ module: "api" });
+
+let cacheBackend: CacheBackend = createCacheBackendFromEnv();
+// 環境変数で指定した有効期間。configureCache の指定はこれに重ねる
+const configuredCacheTtl = createCacheTtlFromEnv();
+let cacheTtlByEndpoint: Readonly<Record<string, number>> = configuredCacheTtl;
+let staleWhileRevalidateMs: number = CONFIG.CACHE_STALE_WHILE_REVALIDATE;
+
+export interface CacheOptions {
+  backend?: CacheBackend;
+  ttlByEndpoint?: Readonly<Record<string, number>>;
+  /** 有効期間を過ぎたエントリを、再検証を待たずに返してよい期間（ミリ秒） */
+  staleWhileRevalidate?: number;
+}
+
+export interface RetryPolicy {
+  /** 最初のリクエストを含む試行回数 */
+  readonly attempts: number;
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+  /** `Retry-After` がこれより長い場合は待たずにエラーを返す */
+  readonly maxRetryAfterMs: number;
+  readonly circuitBreaker: CircuitBreakerOptions;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: CONFIG.RETRY_ATTEMPTS,
+  baseDelayMs: CONFIG.RETRY_BASE_DELAY,
+  maxDelayMs: CONFIG.RETRY_MAX_DELAY,
+  maxRetryAfterMs: CONFIG.RETRY_AFTER_MAX,
+  circuitBreaker: {
+    failureThreshold: CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+    cooldownMs: CONFIG.CIRCUIT_BREAKER_COOLDOWN,
+  },
+};
+
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+const inFlightRequests = new SingleFlight();
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * 再試行とサーキットブレーカーの設定を差し替える。指定しなかった項目は既定値に戻り、
+ * エンドポイントごとの遮断状態もリセットされる
+ */
+export function configureRetryPolicy(options: Partial<RetryPolicy> = {}): void {
+  retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options };
+  circuitBreakers.clear();
+}
+
+function circuitBreakerFor(endpoint: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(endpoint);
+  if (!breaker) {
+    breaker = new CircuitBreaker(retryPolicy.circuitBreaker);
+    circuitBreakers.set(endpoint, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * 一度でもリクエストしたエンドポイントごとのサーキットブレーカーの状態
+ */
+export function getCircuitStates(): Record<string, CircuitState> {
+  return Object.fromEntries(
+    [...circuitBreakers].map(([endpoint, breaker]) => [
+      endpoint,
+      breaker.state,
+    ]),
+  );
+}
+
+/**
+ * キャッシュの保存先とエンドポイント別の有効期間を差し替える
+ */
+export function configureCache(options: CacheOptions): void {
+  if (options.backend) {
+    cacheBackend = options.backend;
+  }
+  if (options.ttlByEndpoint) {
+    cacheTtlByEndpoint = {
+      ...configuredCacheTtl,
+      ...options.ttlByEndpoint,
+    };
+  }
+  if (options.staleWhileRevalidate !== undefined) {
+    staleWhileRevalidateMs = options.staleWhileRevalidate;
+  }
+}
+
+export function getCacheStats(): CacheStats {
+  return cacheBackend.stats();
 }
 
-const cache = new Map<string, CacheEntry<unknown>>();
-const CACHE_SIZE_LIMIT = 50 * 1024 * 1024; // 50MB
-let currentCacheSize = 0;
+export function getCacheTtl(endpoint: string): number {
+  const exact = cacheTtlByEndpoint[endpoint];
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  const collection = `/${endpoint.split("/")[1] ?? ""}`;
+  return cacheTtlByEndpoint[collection] ?? CONFIG.CACHE_DURATION;
+}
 
 function getCacheKey(url: string, params?: Record<string, unknown>): string {
   if (!params) return url;
@@ -43,58 +170,82 @@ function getCacheKey(url: string, params?: Record<string, unknown>): string {
   }
 }
 
-function getFromCache<T>(key: string): T | null {
-  const entry = cache.get(key);
+/**
+ * キャッシュの参照結果
+ *
+ * - fresh: 有効期間内。そのまま返す
+ * - stale: 有効期間を過ぎたが `staleWhileRevalidate` の範囲内。返しつつバックグラウンドで再検証する
+ * - expired: それより古い。検証子を使った条件付きリクエストの完了を待つ
+ */
+type CacheLookup<T> =
+  | { readonly state: "fresh" | "stale"; readonly entry: CacheEntry<T> }
+  | { readonly state: "expired"; readonly entry: CacheEntry<T> }
+  | { readonly state: "miss"; readonly entry: null };
+
+async function getFromCache<T>(
+  key: string,
+  endpoint: string,
+): Promise<CacheLookup<T>> {
+  const entry = await cacheBackend.get<T>(key).catch(() => null);
   if (!entry) {
-    return null;
+    cacheRequestsTotal.inc({ result: "miss" });
+    return { state: "miss", entry: null };
   }
 
-  if (Date.now() - entry.timestamp > CONFIG.CACHE_DURATION) {
-    cache.delete(key);
-    currentCacheSize -= entry.size;
-    return null;
+  const age = Date.now() - entry.timestamp;
+  const ttl = getCacheTtl(endpoint);
+  if (age <= ttl) {
+    cacheRequestsTotal.inc({ result: "hit" });
+    return { state: "fresh", entry };
+  }
+  if (age <= ttl + staleWhileRevalidateMs) {
+    cacheRequestsTotal.inc({ result: "stale" });
+    return { state: "stale", entry };
   }
 
-  entry.lastAccessed = Date.now();
-  return entry.data as T;
+  cacheRequestsTotal.inc({ result: "miss" });
+  return { state: "expired", entry };
 }
 
-function setCache<T>(key: string, data: T): void {
-  const dataStr = JSON.stringify(data);
-  const size = Buffer.byteLength(dataStr, "utf8");
-
-  if (size > CACHE_SIZE_LIMIT / 10) {
-    return;
-  }
+async function setCache<T>(
+  key: string,
+  data: T,
+  validators: CacheValidators = {},
+): Promise<void> {
+  await cacheBackend
+    .set(key, { ...validators, data, timestamp: Date.now() })
+    .catch(() => {});
+}
 
-  while (currentCacheSize + size > CACHE_SIZE_LIMIT && cache.size > 0) {
-    let oldestKey: string | undefined;
-    let oldestTime = Date.now();
+function validatorsOf(response: Response): CacheValidators {
+  const etag = response.headers.get("ETag");
+  const lastModified = response.headers.get("Last-Modified");
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
 
-    for (const [entryKey, entry] of cache) {
-      if (entry.lastAccessed < oldestTime) {
-        oldestTime = entry.lastAccessed;
-        oldestKey = entryKey;
-      }
-    }
+function conditionalHeaders(
+  entry: CacheEntry<unknown> | null,
+): Record<string, string> {
+  return {
+    ...(entry?.etag ? { "If-None-Match": entry.etag } : {}),
+    ...(entry?.lastModified ? { "If-Modified-Since": entry.lastModified } : {}),
+  };
+}
 
-    if (!oldestKey) break;
+let offlineSnapshot: SnapshotBundle | null = null;
 
-    const oldEntry = cache.get(oldestKey);
-    if (oldEntry) {
-      cache.delete(oldestKey);
-      currentCacheSize -= oldEntry.size;
-    }
-  }
+/**
+ * オフラインスナップショットを設定する。設定中は API にアクセスせずスナップショットから応答する
+ */
+export function setOfflineSnapshot(bundle: SnapshotBundle | null): void {
+  offlineSnapshot = bundle;
+}
 
-  const now = Date.now();
-  cache.set(key, {
-    data,
-    timestamp: now,
-    size,
-    lastAccessed: now,
-  });
-  currentCacheSize += size;
+export function getOfflineSnapshot(): SnapshotBundle | null {
+  return offlineSnapshot;
 }
 
 interface ValidationMetrics {
@@ -160,15 +311,17 @@ export function buildApiUrl(
 
 async function fetchWithTimeout(
   url: string,
-  timeoutMs = CONFIG.REQUEST_TIMEOUT,
+  endpoint: string,
+  timeoutMs: number = CONFIG.REQUEST_TIMEOUT,
   signal?: AbortSignal,
+  headers: Readonly<Record<string, string>> = {},
 ): Promise<Response> {
   const controller = new AbortController();
   const combinedSignal = controller.signal;
 
+  const handleExternalAbort = () => controller.abort();
   if (signal) {
-    const handleExternalAbort = () => controller.abort();
-    signal.addEventListener("abort", handleExternalAbort);
+    signal.addEventListener("abort", handleExternalAbort, { once: true });
 
     if (signal.aborted) {
       controller.abort();
@@ -176,6 +329,14 @@ async function fetchWithTimeout(
   }
 
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = performance.now();
+  const observe = (status: string) => {
+    upstreamRequestsTotal.inc({ endpoint, status });
+    upstreamRequestDuration.observe(
+      { endpoint },
+      (performance.now() - startedAt) / 1000,
+    );
+  };
 
   try {
     const response = await fetch(url, {
@@ -183,76 +344,316 @@ async function fetchWithTimeout(
       headers: {
         Accept: "application/json",
         "User-Agent": "kuhi-api-mcp-server/2.0.0",
+        ...headers,
       },
     });
-    clearTimeout(timeoutId);
+    observe(String(response.status));
     return response;
   } catch (error) {
-    clearTimeout(timeoutId);
+    observe(signal?.aborted ? "cancelled" : "error");
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
     if (error instanceof Error && error.name === "AbortError") {
-      throw new Error(`Request timeout after ${timeoutMs}ms`);
+      throw new TimeoutError(endpoint, timeoutMs);
     }
-    throw error;
+    throw new NetworkError(endpoint, error);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", handleExternalAbort);
   }
 }
 
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("The operation was aborted", "AbortError");
+}
+
+/**
+ * 指定時間待機する。`signal` が中断されると待機をやめて中断理由で reject する
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 指数バックオフの待機時間。上限の半分から上限までの間でランダムに揺らし、
+ * 同時に失敗したリクエストの再試行が重ならないようにする
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(
+    retryPolicy.baseDelayMs * 2 ** (attempt - 1),
+    retryPolicy.maxDelayMs,
+  );
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * 次の試行までの待機時間。`Retry-After` が長すぎる場合は再試行しない（null）
+ */
+function retryDelay(error: ApiError, attempt: number): number | null {
+  if (error instanceof RateLimitedError && error.retryAfterSeconds !== null) {
+    const delay = error.retryAfterSeconds * 1000;
+    return delay > retryPolicy.maxRetryAfterMs ? null : delay;
+  }
+  return backoffDelay(attempt);
+}
+
+/**
+ * 句碑 API へのリクエストはすべて GET（冪等）のため、接続エラー・タイムアウトに加えて
+ * 5xx と 429 の応答も再試行する。それ以外の 4xx はそのまま返す
+ */
 async function fetchWithRetry(
   url: string,
+  resource: string,
+  id: number | string | undefined,
   signal?: AbortSignal,
+  headers: Readonly<Record<string, string>> = {},
 ): Promise<Response> {
-  let lastError: Error = new Error("No attempts made");
+  const endpoint = endpointLabel(resource, id);
+  const breaker = circuitBreakerFor(endpoint);
+  let lastError: ApiError = new NetworkError(endpoint, "No attempts made");
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= retryPolicy.attempts; attempt++) {
+    const decision = breaker.tryAcquire();
+    if (!decision.allowed) {
+      if (attempt === 1) {
+        throw new CircuitOpenError(
+          endpoint,
+          Math.ceil(decision.retryAfterMs / 1000),
+        );
+      }
+      // 再試行の途中で遮断された場合は直前のエラーを返す
+      break;
+    }
+    if (attempt > 1) {
+      upstreamRetriesTotal.inc({ endpoint });
+    }
+    attempts = attempt;
 
-  for (let attempt = 1; attempt <= CONFIG.RETRY_ATTEMPTS; attempt++) {
     try {
       const response = await fetchWithTimeout(
         url,
+        endpoint,
         CONFIG.REQUEST_TIMEOUT,
         signal,
+        headers,
       );
+      log.debug("上流 API から応答を受信しました", {
+        url,
+        status: response.status,
+        attempt,
+      });
+      if (response.status >= 500 || response.status === 429) {
+        const body = await response.text().catch(() => "");
+        throw toHttpError(response, body, resource, id);
+      }
+      breaker.recordSuccess();
       return response;
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (lastError.name === "AbortError" || signal?.aborted) {
-        throw lastError;
+      if (!(error instanceof ApiError)) {
+        // 呼び出し元による中断は上流の障害として数えない
+        breaker.release();
+        throw error;
+      }
+      if (error instanceof RateLimitedError) {
+        breaker.release();
+      } else {
+        breaker.recordFailure();
       }
+      lastError = error;
 
-      if (attempt === CONFIG.RETRY_ATTEMPTS) {
+      if (attempt === retryPolicy.attempts) {
+        break;
+      }
+      const delay = retryDelay(error, attempt);
+      if (delay === null) {
         break;
       }
 
-      const delay = Math.min(1000 * 2 ** (attempt - 1), 5000);
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      log.warn("上流 API へのリクエストを再試行します", {
+        url,
+        endpoint,
+        attempt,
+        delay_ms: delay,
+        error: lastError,
+      });
+      await sleep(delay, signal);
     }
   }
 
-  throw new Error(
-    `Failed after ${CONFIG.RETRY_ATTEMPTS} attempts: ${lastError.message}`,
-  );
+  log.error("上流 API へのリクエストに失敗しました", {
+    url,
+    endpoint,
+    attempts,
+    circuit: breaker.state,
+    error: lastError,
+  });
+  throw lastError;
 }
 
-async function handleApiResponse<T>(response: Response): Promise<T> {
+export interface UpstreamProbeResult {
+  readonly ok: boolean;
+  readonly statusCode: number | null;
+  readonly latencyMs: number;
+  readonly error: string | null;
+}
+
+/**
+ * キャッシュ・リトライを使わず、句碑を1件だけ取得して上流の API が応答するかを確認する
+ */
+export async function probeUpstream(
+  timeoutMs = CONFIG.READY_PROBE_TIMEOUT,
+): Promise<UpstreamProbeResult> {
+  const url = buildApiUrl(ENDPOINTS.MONUMENTS, undefined, { limit: "1" });
+  const startedAt = performance.now();
+  const latency = () => Math.round(performance.now() - startedAt);
+
+  try {
+    const response = await fetchWithTimeout(
+      url,
+      ENDPOINTS.MONUMENTS,
+      timeoutMs,
+    );
+    await response.text().catch(() => "");
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      latencyMs: latency(),
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      latencyMs: latency(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * `Retry-After` ヘッダー（秒数または HTTP 日付）を待機秒数にする
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date)
+    ? null
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function toHttpError(
+  response: Response,
+  body: string,
+  resource: string,
+  id: number | string | undefined,
+): ApiError {
+  const endpoint = endpointLabel(resource, id);
+  const { status } = response;
+  if (status === 404) {
+    return new NotFoundError(resource, id, endpoint);
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      endpoint,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    );
+  }
+  if (status >= 500) {
+    return new UpstreamServerError(endpoint, status, body);
+  }
+  return new ApiError(`API Error (${status}): ${body}`, { endpoint, status });
+}
+
+async function handleApiResponse<T>(
+  response: Response,
+  resource: string,
+  id?: number | string,
+): Promise<T> {
+  const endpoint = endpointLabel(resource, id);
   if (!response.ok) {
     const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`API Error (${response.status}): ${errorText}`);
+    log.warn("上流 API がエラーを返しました", {
+      endpoint,
+      status: response.status,
+    });
+    throw toHttpError(response, errorText, resource, id);
   }
 
+  let text: string;
   try {
-    const text = await response.text();
-    if (!text.trim()) {
-      throw new Error("Empty response body");
-    }
+    text = await response.text();
+  } catch (error) {
+    throw new NetworkError(endpoint, error);
+  }
+  if (!text.trim()) {
+    throw new ValidationFailedError(
+      endpoint,
+      "Failed to parse response: Empty response body",
+    );
+  }
 
+  try {
     return JSON.parse(text);
   } catch (error) {
-    throw new Error(
+    throw new ValidationFailedError(
+      endpoint,
       `Failed to parse response: ${error instanceof Error ? error.message : String(error)}`,
+      error,
     );
   }
 }
 
 interface FetchResourceOptions {
   skipValidation?: boolean;
+  signal?: AbortSignal | undefined;
+  noCache?: boolean | undefined;
+}
+
+/**
+ * API 呼び出しごとのオプション
+ */
+export interface RequestOptions {
+  /** 中断されると上流へのリクエスト（リトライの待機を含む）を取りやめる */
+  readonly signal?: AbortSignal | undefined;
+  /** キャッシュを参照せず上流から取得する（取得結果はキャッシュに保存する） */
+  readonly noCache?: boolean | undefined;
+}
+
+export interface CrawlProgress {
+  /** これまでに取得した件数（重複を除く） */
+  readonly fetched: number;
+  readonly page: number;
+  /** 取得件数の上限（指定された場合のみ） */
+  readonly total?: number;
+}
+
+export interface CrawlOptions extends RequestOptions {
+  /** 1ページ取得するごとに呼び出す */
+  readonly onProgress?: (progress: CrawlProgress) => void;
 }
 
 async function fetchResource<T>(
@@ -262,36 +663,130 @@ async function fetchResource<T>(
   params?: Record<string, string>,
   options: FetchResourceOptions = {},
 ): Promise<T> {
+  if (offlineSnapshot) {
+    return querySnapshot(offlineSnapshot, endpoint, id, params) as T;
+  }
+
   const url = buildApiUrl(endpoint, id, params);
   const cacheKey = getCacheKey(url, params);
 
-  const cachedData = getFromCache<T>(cacheKey);
-  if (cachedData) {
-    return cachedData;
+  const cached: CacheLookup<T> = options.noCache
+    ? { state: "miss", entry: null }
+    : await getFromCache<T>(cacheKey, endpoint);
+  if (cached.state === "fresh") {
+    return cached.entry.data;
   }
 
-  const response = await fetchWithRetry(url);
-  const rawData = await handleApiResponse<unknown>(response);
+  const request = (signal: AbortSignal) =>
+    requestResource(url, cacheKey, endpoint, schema, id, cached.entry, {
+      ...options,
+      signal,
+    });
+
+  if (cached.state === "stale") {
+    revalidateInBackground(cacheKey, endpointLabel(endpoint, id), request);
+    return cached.entry.data;
+  }
+
+  // 同じリクエストが実行中であれば、キャッシュに保存される前でもその結果を共有する
+  if (inFlightRequests.has(cacheKey)) {
+    upstreamCoalescedRequestsTotal.inc({
+      endpoint: endpointLabel(endpoint, id),
+    });
+  }
+  return inFlightRequests.run(cacheKey, request, options.signal);
+}
+
+/**
+ * 古くなったキャッシュを呼び出し元を待たせずに更新する。同じキーの更新が実行中であれば何もしない
+ */
+function revalidateInBackground(
+  cacheKey: string,
+  endpoint: string,
+  request: (signal: AbortSignal) => Promise<unknown>,
+): void {
+  if (inFlightRequests.has(cacheKey)) {
+    return;
+  }
+  // 呼び出し元の応答後もログを出力するため、呼び出し元のログコンテキストから切り離す
+  runOutsideLogContext(() => {
+    inFlightRequests.run(cacheKey, request).catch((error: unknown) => {
+      cacheRevalidationsTotal.inc({ result: "error" });
+      log.warn("キャッシュの再検証に失敗しました。古いデータを使い続けます", {
+        endpoint,
+        error,
+      });
+    });
+  });
+}
+
+async function requestResource<T>(
+  url: string,
+  cacheKey: string,
+  endpoint: string,
+  schema: z.ZodSchema<T> | undefined,
+  id: number | string | undefined,
+  cached: CacheEntry<T> | null,
+  options: FetchResourceOptions,
+): Promise<T> {
+  const response = await fetchWithRetry(
+    url,
+    endpoint,
+    id,
+    options.signal,
+    conditionalHeaders(cached),
+  );
+
+  // 変更がなければ保存済みのデータ（検証済み）の有効期間だけを延ばす
+  if (response.status === 304 && cached) {
+    await response.text().catch(() => "");
+    cacheRevalidationsTotal.inc({ result: "not_modified" });
+    const { data, timestamp: _timestamp, ...validators } = cached;
+    await setCache(cacheKey, data, {
+      ...validators,
+      ...validatorsOf(response),
+    });
+    return data;
+  }
+
+  const rawData = await handleApiResponse<unknown>(response, endpoint, id);
+  const validators = validatorsOf(response);
+  if (cached) {
+    cacheRevalidationsTotal.inc({ result: "modified" });
+  }
 
   validationMetrics.totalRequests += 1;
 
   if (schema && !options.skipValidation) {
     try {
       const validatedData = schema.parse(rawData);
-      setCache(cacheKey, validatedData);
+      await setCache(cacheKey, validatedData, validators);
       return validatedData;
-    } catch (_error) {
+    } catch (error) {
+      log.warn(
+        "レスポンスがスキーマに一致しないため、検証前のデータをそのまま使用します",
+        {
+          endpoint: endpointLabel(endpoint, id),
+          issues:
+            error instanceof z.ZodError
+              ? error.issues.slice(0, 5).map((issue) => ({
+                  path: issue.path.join("."),
+                  message: issue.message,
+                }))
+              : String(error),
+        },
+      );
       validationMetrics.validationFailures += 1;
       validationMetrics.lastFailureAt = new Date();
       validationMetrics.failuresByEndpoint[endpoint] =
         (validationMetrics.failuresByEndpoint[endpoint] ?? 0) + 1;
 
-      setCache(cacheKey, rawData);
+      await setCache(cacheKey, rawData, validators);
       return rawData as T;
     }
   }
 
-  setCache(cacheKey, rawData);
+  await setCache(cacheKey, rawData, validators);
   return rawData as T;
 }
 
@@ -374,6 +869,7 @@ export function normalizeMonument(data: unknown): Monument {
 
 export async function fetchMonuments(
   options?: SearchOptions,
+  requestOptions: RequestOptions = {},
 ): Promise<Monument[]> {
   const params = options
     ? Object.fromEntries(
@@ -388,14 +884,22 @@ export async function fetchMonuments(
     MonumentsResponseSchema,
     undefined,
     params,
+    { signal: requestOptions.signal, noCache: requestOptions.noCache },
   );
   return raw.map(normalizeMonument);
 }
 
+/**
+ * ページングしながら条件に一致するすべての句碑を取得する
+ *
+ * `crawlOptions.signal` が中断されると次のページを取得せずに中断理由で reject する。
+ */
 export async function fetchAllMonuments(
   options?: Omit<SearchOptions, "limit" | "offset">,
   maxResults?: number,
+  crawlOptions: CrawlOptions = {},
 ): Promise<Monument[]> {
+  const { signal, noCache, onProgress } = crawlOptions;
   const allMonuments: Monument[] = [];
   const seenIds = new Set<number>();
   const BATCH_SIZE = 100;
@@ -410,7 +914,7 @@ export async function fetchAllMonuments(
       limit: BATCH_SIZE,
       offset,
     };
-    const batch = await fetchMonuments(params);
+    const batch = await fetchMonuments(params, { signal, noCache });
     if (!batch.length) {
       break;
     }
@@ -420,6 +924,11 @@ export async function fetchAllMonuments(
         seenIds.add(m.id);
       }
     }
+    onProgress?.({
+      fetched: allMonuments.length,
+      page: offset / BATCH_SIZE + 1,
+      ...(maxResults !== undefined ? { total: maxResults } : {}),
+    });
     if (allMonuments.length >= DEFAULT_MAX_RESULTS) {
       break;
     }
@@ -427,7 +936,7 @@ export async function fetchAllMonuments(
       break;
     }
     offset += BATCH_SIZE;
-    await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+    await sleep(DELAY_MS, signal);
     if (offset > 100000) {
       break;
     }
@@ -0,0 +1,360 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { CACHE_TTL_BY_ENDPOINT, CONFIG, ENDPOINTS } from "./config.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ module: "cache" });
+
+/**
+ * 上流のレスポンスの検証子。期限切れのエントリを条件付きリクエストで再検証するときに使う
+ */
+export interface CacheValidators {
+  readonly etag?: string;
+  readonly lastModified?: string;
+}
+
+export interface CacheEntry<T> extends CacheValidators {
+  readonly data: T;
+  readonly timestamp: number;
+}
+
+export interface CacheStats {
+  readonly entries: number;
+  readonly bytes: number;
+  /** 容量上限により追い出したエントリ数の累計 */
+  readonly evictions: number;
+}
+
+/**
+ * APIクライアントのキャッシュ保存先
+ *
+ * 有効期限の判定は呼び出し側（api.ts）が `timestamp` を元に行い、
+ * バックエンドは保存・取得と容量上限による追い出しのみを担当する。
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): CacheStats;
+}
+
+interface MemoryCacheRecord {
+  entry: CacheEntry<unknown>;
+  size: number;
+  lastAccessed: number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private readonly records = new Map<string, MemoryCacheRecord>();
+  private currentSize = 0;
+  private evictions = 0;
+
+  constructor(private readonly maxBytes = CONFIG.CACHE_MAX_MEMORY_BYTES) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    record.lastAccessed = Date.now();
+    return record.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(entry.data), "utf8");
+
+    if (size > this.maxBytes / 10) {
+      return;
+    }
+
+    await this.delete(key);
+
+    while (this.currentSize + size > this.maxBytes && this.records.size > 0) {
+      const oldestKey = findLeastRecentlyUsed(this.records);
+      if (!oldestKey) break;
+      await this.delete(oldestKey);
+      this.evictions++;
+    }
+
+    this.records.set(key, { entry, size, lastAccessed: Date.now() });
+    this.currentSize += size;
+  }
+
+  async delete(key: string): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      this.records.delete(key);
+      this.currentSize -= record.size;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.currentSize = 0;
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.records.size,
+      bytes: this.currentSize,
+      evictions: this.evictions,
+    };
+  }
+}
+
+interface FileCacheRecord {
+  size: number;
+  lastAccessed: number;
+}
+
+interface StoredCacheFile<T> extends CacheValidators {
+  key: string;
+  timestamp: number;
+  data: T;
+}
+
+const CACHE_FILE_EXTENSION = ".json";
+
+/**
+ * ディスク上にキャッシュを保存し、プロセス再起動後も再利用できるバックエンド
+ *
+ * キーごとに1ファイルを作成し、合計サイズが `maxBytes` を超えた場合は
+ * 最終アクセスが古いものから削除する。起動直後の最終アクセス時刻はファイルの
+ * 更新時刻で代用する。
+ */
+export class FileCacheBackend implements CacheBackend {
+  private index: Map<string, FileCacheRecord> | null = null;
+  private indexLoading: Promise<Map<string, FileCacheRecord>> | null = null;
+  private currentSize = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxBytes = CONFIG.CACHE_MAX_DISK_BYTES,
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const index = await this.loadIndex();
+    const fileName = this.fileNameFor(key);
+    const record = index.get(fileName);
+    if (!record) {
+      return null;
+    }
+
+    try {
+      const raw = await fs.readFile(this.pathFor(fileName), "utf8");
+      const stored = JSON.parse(raw) as StoredCacheFile<T>;
+      if (stored.key !== key) {
+        return null;
+      }
+
+      record.lastAccessed = Date.now();
+      const { key: _key, ...entry } = stored;
+      return entry;
+    } catch (error) {
+      log.warn("キャッシュファイルの読み込みに失敗しました", { key, error });
+      await this.removeFile(fileName);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const index = await this.loadIndex();
+    const fileName = this.fileNameFor(key);
+    const stored: StoredCacheFile<T> = { ...entry, key };
+    const content = JSON.stringify(stored);
+    const size = Buffer.byteLength(content, "utf8");
+
+    if (size > this.maxBytes / 10) {
+      return;
+    }
+
+    await this.removeFile(fileName);
+
+    while (this.currentSize + size > this.maxBytes && index.size > 0) {
+      const oldestFile = findLeastRecentlyUsed(index);
+      if (!oldestFile) break;
+      await this.removeFile(oldestFile);
+      this.evictions++;
+    }
+
+    const filePath = this.pathFor(fileName);
+    // 同じキーへの書き込みが並行しても一時ファイルが衝突しないよう、書き込みごとに名前を変える
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, content, "utf8");
+      await fs.rename(tempPath, filePath);
+
+      // 並行した書き込みが先に登録していれば、そのサイズを置き換える
+      this.currentSize += size - (index.get(fileName)?.size ?? 0);
+      index.set(fileName, { size, lastAccessed: Date.now() });
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => {});
+      log.warn("キャッシュファイルの書き込みに失敗しました", { key, error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.loadIndex();
+    await this.removeFile(this.fileNameFor(key));
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    for (const fileName of Array.from(index.keys())) {
+      await this.removeFile(fileName);
+    }
+  }
+
+  /**
+   * ディレクトリの読み込み前は 0 件として返す
+   */
+  stats(): CacheStats {
+    return {
+      entries: this.index?.size ?? 0,
+      bytes: this.currentSize,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * 並行した呼び出しが別々のインデックスを作らないよう、読み込みは1回だけ行う
+   */
+  private loadIndex(): Promise<Map<string, FileCacheRecord>> {
+    this.indexLoading ??= this.readIndex();
+    return this.indexLoading;
+  }
+
+  private async readIndex(): Promise<Map<string, FileCacheRecord>> {
+    const index = new Map<string, FileCacheRecord>();
+    this.currentSize = 0;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const fileNames = await fs.readdir(this.directory);
+
+      for (const fileName of fileNames) {
+        if (!fileName.endsWith(CACHE_FILE_EXTENSION)) continue;
+
+        const stat = await fs.stat(this.pathFor(fileName)).catch(() => null);
+        if (!stat?.isFile()) continue;
+
+        index.set(fileName, { size: stat.size, lastAccessed: stat.mtimeMs });
+        this.currentSize += stat.size;
+      }
+    } catch (error) {
+      log.warn("キャッシュディレクトリの読み込みに失敗しました", {
+        directory: this.directory,
+        error,
+      });
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  private async removeFile(fileName: string): Promise<void> {
+    const record = this.index?.get(fileName);
+    if (!record) {
+      return;
+    }
+
+    this.index?.delete(fileName);
+    this.currentSize -= record.size;
+    await fs.rm(this.pathFor(fileName), { force: true }).catch(() => {});
+  }
+
+  private fileNameFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return `${hash}${CACHE_FILE_EXTENSION}`;
+  }
+
+  private pathFor(fileName: string): string {
+    return path.join(this.directory, fileName);
+  }
+}
+
+function findLeastRecentlyUsed(
+  records: ReadonlyMap<string, { lastAccessed: number }>,
+): string | undefined {
+  let oldestKey: string | undefined;
+  let oldestTime = Number.POSITIVE_INFINITY;
+
+  for (const [key, record] of records) {
+    if (record.lastAccessed < oldestTime) {
+      oldestTime = record.lastAccessed;
+      oldestKey = key;
+    }
+  }
+
+  return oldestKey;
+}
+
+/**
+ * 環境変数からキャッシュバックエンドを生成する
+ *
+ * - `KUHI_CACHE_DIR`: 指定するとディスクキャッシュを使用
+ * - `KUHI_CACHE_MAX_BYTES`: ディスクキャッシュの容量上限（バイト）
+ */
+export function createCacheBackendFromEnv(): CacheBackend {
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  const directory = process.env["KUHI_CACHE_DIR"];
+  if (!directory) {
+    return new MemoryCacheBackend();
+  }
+
+  const maxBytes = Number.parseInt(
+    // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+    process.env["KUHI_CACHE_MAX_BYTES"] ?? "",
+    10,
+  );
+
+  return new FileCacheBackend(
+    path.resolve(directory),
+    Number.isFinite(maxBytes) && maxBytes > 0
+      ? maxBytes
+      : CONFIG.CACHE_MAX_DISK_BYTES,
+  );
+}
+
+const KNOWN_ENDPOINTS: ReadonlySet<string> = new Set(Object.values(ENDPOINTS));
+
+/**
+ * `エンドポイント=秒` のカンマ区切りをエンドポイント別の有効期間（ミリ秒）にする
+ *
+ * エンドポイントは ENDPOINTS のいずれか、またはその下位のパス（例: `/poets/1/monuments`）。
+ */
+export function parseCacheTtlByEndpoint(value: string): Record<string, number> {
+  const ttlByEndpoint: Record<string, number> = {};
+  for (const entry of value.split(",")) {
+    if (!entry.trim()) continue;
+    const [endpoint, seconds] = entry.split("=").map((part) => part.trim());
+    const collection = `/${endpoint?.split("/")[1] ?? ""}`;
+    if (
+      !endpoint?.startsWith("/") ||
+      !KNOWN_ENDPOINTS.has(collection) ||
+      seconds === undefined ||
+      !/^\d+$/u.test(seconds)
+    ) {
+      throw new Error(`Invalid cache TTL: ${entry}`);
+    }
+    ttlByEndpoint[endpoint] = Number.parseInt(seconds, 10) * 1000;
+  }
+  return ttlByEndpoint;
+}
+
+/**
+ * 既定のエンドポイント別の有効期間に、環境変数 `KUHI_CACHE_TTL` の指定を重ねる
+ *
+ * 指定が不正な場合は起動時にエラーにする。
+ */
+export function createCacheTtlFromEnv(): Readonly<Record<string, number>> {
+  return {
+    ...CACHE_TTL_BY_ENDPOINT,
+    // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+    ...parseCacheTtlByEndpoint(process.env["KUHI_CACHE_TTL"] ?? ""),
+  };
+}
@@ -0,0 +1,87 @@
+import { CONFIG } from "./config.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** 連続してこの回数失敗すると遮断する */
+  readonly failureThreshold?: number;
+  /** 遮断してから試行を再開するまでの時間（ミリ秒） */
+  readonly cooldownMs?: number;
+  readonly now?: () => number;
+}
+
+export type CircuitDecision =
+  | { readonly allowed: true }
+  | { readonly allowed: false; readonly retryAfterMs: number };
+
+/**
+ * 上流のエンドポイントへの失敗が続いたときにリクエストを一時的に遮断する
+ *
+ * 遮断中（open）はリクエストを送らずに失敗させ、待機時間が過ぎると1件だけ試行を許可する（half_open）。
+ * その試行が成功すれば元に戻し（closed）、失敗すれば再び遮断する。
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold =
+      options.failureThreshold ?? CONFIG.CIRCUIT_BREAKER_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? CONFIG.CIRCUIT_BREAKER_COOLDOWN;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return this.now() - this.openedAt >= this.cooldownMs ? "half_open" : "open";
+  }
+
+  /**
+   * リクエストを送ってよいかを判定する。half_open では最初の1件だけを許可する
+   */
+  tryAcquire(): CircuitDecision {
+    const state = this.state;
+    if (state === "closed") {
+      return { allowed: true };
+    }
+    if (state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return { allowed: true };
+    }
+    const elapsed = this.now() - (this.openedAt ?? this.now());
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(0, this.cooldownMs - elapsed),
+    };
+  }
+
+  /**
+   * 成功とも失敗とも判断できない結果（中断など）で試行を終えたときに、half_open の試行枠を返す
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    if (
+      this.trialInFlight ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
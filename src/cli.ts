@@ -0,0 +1,459 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { type ParseArgsOptionsConfig, parseArgs } from "node:util";
+import { fetchAllMonuments, fetchMonuments } from "./api.js";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  inferExportFormat,
+  serializeFeatureCollection,
+} from "./export-formats.js";
+import { startHttpServer } from "./server/http.js";
+import { startStdioServer } from "./server/stdio.js";
+import { convertToGeoJSON } from "./server/tools/geojson.js";
+import {
+  createSnapshot,
+  enableOfflineSnapshotFromEnv,
+  writeSnapshot,
+} from "./snapshot.js";
+import type { SearchOptions } from "./types.js";
+import {
+  computeMonumentStatistics,
+  formatMonumentForDisplay,
+  formatStatisticsForDisplay,
+} from "./utils.js";
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  USAGE: 2,
+} as const;
+
+const PROGRAM_NAME = "kuhi-api-mcp-server";
+const TRANSPORTS = ["stdio", "http"] as const;
+const DEFAULT_SNAPSHOT_DIR = "snapshots";
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_LIMIT = 1000;
+
+/**
+ * 引数の誤りなど、使い方の説明を添えて終了すべきエラー
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+interface OutputStream {
+  write(chunk: string): unknown;
+}
+
+export interface CliIO {
+  readonly stdout: OutputStream;
+  readonly stderr: OutputStream;
+}
+
+interface CliCommand {
+  readonly summary: string;
+  readonly help: string;
+  /** サーバーを起動するコマンドは終了コードを返さず、プロセスを動かし続ける */
+  readonly run: (args: string[], io: CliIO) => Promise<number | null>;
+}
+
+const HELP_OPTION = {
+  help: { type: "boolean", short: "h" },
+} as const satisfies ParseArgsOptionsConfig;
+
+function parseCommandArgs<T extends ParseArgsOptionsConfig>(
+  args: string[],
+  options: T,
+  allowPositionals = false,
+) {
+  try {
+    return parseArgs({ args, options, allowPositionals, strict: true });
+  } catch (error) {
+    throw new CliUsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+function parseIntegerOption(
+  name: string,
+  value: string | undefined,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new CliUsageError(
+      `--${name} には ${min} から ${max} の整数を指定してください: ${value}`,
+    );
+  }
+  return parsed;
+}
+
+function parseChoiceOption<T extends string>(
+  name: string,
+  value: string,
+  choices: readonly T[],
+): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new CliUsageError(
+      `--${name} には ${choices.join(" / ")} のいずれかを指定してください: ${value}`,
+    );
+  }
+  return value as T;
+}
+
+const serveCommand: CliCommand = {
+  summary: "MCP サーバーを起動する（既定のコマンド）",
+  help: `使い方: ${PROGRAM_NAME} serve [オプション]
+
+MCP サーバーを起動します。
+
+オプション:
+  --transport <stdio|http>  トランスポート（既定: stdio）
+  --port <番号>             http の待ち受けポート（既定: 環境変数 PORT または 8786）
+  --path <パス>             http のエンドポイント（既定: 環境変数 MCP_HTTP_PATH または /mcp）
+  -h, --help                このヘルプを表示`,
+  async run(args) {
+    const { values } = parseCommandArgs(args, {
+      ...HELP_OPTION,
+      transport: { type: "string", default: "stdio" },
+      port: { type: "string" },
+      path: { type: "string" },
+    });
+
+    const transport = parseChoiceOption(
+      "transport",
+      values.transport,
+      TRANSPORTS,
+    );
+    const port = parseIntegerOption("port", values.port, 1, 65535);
+    if (transport === "stdio" && (port !== undefined || values.path)) {
+      throw new CliUsageError(
+        "--port と --path は --transport http の場合のみ指定できます",
+      );
+    }
+
+    await enableOfflineSnapshotFromEnv();
+
+    if (transport === "http") {
+      await startHttpServer({
+        ...(port !== undefined ? { port } : {}),
+        ...(values.path ? { path: values.path } : {}),
+      });
+    } else {
+      await startStdioServer();
+    }
+    return null;
+  },
+};
+
+const exportCommand: CliCommand = {
+  summary: "句碑データを GeoJSON / KML / GPX / CSV で書き出す",
+  help: `使い方: ${PROGRAM_NAME} export [オプション]
+
+句碑データを地図アプリや表計算ソフト向けの形式で書き出します。
+
+オプション:
+  -f, --format <形式>       ${EXPORT_FORMATS.join(" / ")}（既定: 出力先の拡張子から推定、標準出力の場合は geojson）
+  -o, --output <パス>       出力先ファイル（省略時は標準出力）
+  --prefecture <名前>       都道府県で絞り込み（例: 三重県）
+  --municipality <名前>     市区町村で絞り込み（例: 桑名市）
+  --region <名前>           地域で絞り込み（例: 東海）
+  --poet <名前>             俳人名で絞り込み（例: 松尾芭蕉）
+  --limit <件数>            最大件数（1-${MAX_LIMIT}、既定: すべて）
+  -h, --help                このヘルプを表示`,
+  async run(args, io) {
+    const { values } = parseCommandArgs(args, {
+      ...HELP_OPTION,
+      format: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+      prefecture: { type: "string" },
+      municipality: { type: "string" },
+      region: { type: "string" },
+      poet: { type: "string" },
+      limit: { type: "string" },
+    });
+
+    const format: ExportFormat = values.format
+      ? parseChoiceOption("format", values.format, EXPORT_FORMATS)
+      : values.output
+        ? inferExportFormat(values.output)
+        : "geojson";
+    const limit = parseIntegerOption("limit", values.limit, 1, MAX_LIMIT);
+
+    const options: Omit<SearchOptions, "limit" | "offset"> = {};
+    if (values.prefecture) {
+      options.prefecture = values.prefecture;
+    }
+    if (values.municipality) {
+      options.municipality = values.municipality;
+    }
+    if (values.region) {
+      options.region = values.region;
+    }
+    if (values.poet) {
+      options.poet_name_contains = values.poet;
+    }
+
+    await enableOfflineSnapshotFromEnv();
+    const monuments = (await fetchAllMonuments(options, limit)).slice(0, limit);
+    const output = serializeFeatureCollection(
+      convertToGeoJSON(monuments),
+      format,
+    );
+
+    if (values.output) {
+      await fs.mkdir(path.dirname(values.output), { recursive: true });
+      await fs.writeFile(values.output, output, "utf8");
+      io.stderr.write(
+        `${monuments.length}件の句碑を${format.toUpperCase()}形式で書き出しました: ${values.output}\n`,
+      );
+    } else {
+      io.stdout.write(output.endsWith("\n") ? output : `${output}\n`);
+    }
+    return EXIT_CODES.SUCCESS;
+  },
+};
+
+const snapshotCommand: CliCommand = {
+  summary: "オフライン利用のためのスナップショットを作成する",
+  help: `使い方: ${PROGRAM_NAME} snapshot [出力先]
+
+API の全エンドポイントを取得し、スナップショットとして保存します。
+出力先にディレクトリを指定すると作成日時入りのファイル名で保存します（既定: ${DEFAULT_SNAPSHOT_DIR}）。
+
+オプション:
+  -o, --output <パス>       出力先（位置引数と同じ）
+  -h, --help                このヘルプを表示`,
+  async run(args, io) {
+    const { values, positionals } = parseCommandArgs(
+      args,
+      { ...HELP_OPTION, output: { type: "string", short: "o" } },
+      true,
+    );
+    if (positionals.length > 1 || (values.output && positionals.length > 0)) {
+      throw new CliUsageError("出力先は1つだけ指定してください");
+    }
+
+    const outputPath = values.output ?? positionals[0] ?? DEFAULT_SNAPSHOT_DIR;
+    const bundle = await createSnapshot();
+    const filePath = await writeSnapshot(bundle, outputPath);
+
+    io.stderr.write(
+      `スナップショットを作成しました: ${filePath}（句碑 ${bundle.collections.monuments.length}件）\n`,
+    );
+    return EXIT_CODES.SUCCESS;
+  },
+};
+
+const statsCommand: CliCommand = {
+  summary: "句碑の統計（都道府県・地域・俳人・季節別）を表示する",
+  help: `使い方: ${PROGRAM_NAME} stats [オプション]
+
+句碑を都道府県・地域・俳人・季節ごとに集計して表示します。
+
+オプション:
+  --prefecture <名前>       都道府県で絞り込み
+  --region <名前>           地域で絞り込み
+  --poet <名前>             俳人名で絞り込み
+  --json                    JSON で出力
+  -h, --help                このヘルプを表示`,
+  async run(args, io) {
+    const { values } = parseCommandArgs(args, {
+      ...HELP_OPTION,
+      prefecture: { type: "string" },
+      region: { type: "string" },
+      poet: { type: "string" },
+      json: { type: "boolean" },
+    });
+
+    const options: Omit<SearchOptions, "limit" | "offset"> = {};
+    if (values.prefecture) {
+      options.prefecture = values.prefecture;
+    }
+    if (values.region) {
+      options.region = values.region;
+    }
+    if (values.poet) {
+      options.poet_name_contains = values.poet;
+    }
+
+    await enableOfflineSnapshotFromEnv();
+    const statistics = computeMonumentStatistics(
+      await fetchAllMonuments(options),
+    );
+
+    io.stdout.write(
+      `${values.json ? JSON.stringify(statistics, null, 2) : formatStatisticsForDisplay(statistics)}\n`,
+    );
+    return EXIT_CODES.SUCCESS;
+  },
+};
+
+const searchCommand: CliCommand = {
+  summary: "キーワードや条件で句碑を検索する",
+  help: `使い方: ${PROGRAM_NAME} search [キーワード] [オプション]
+
+句・俳人・場所などのキーワードや条件で句碑を検索します。
+キーワードと絞り込み条件のいずれかは必須です。
+
+オプション:
+  --poet <名前>             俳人名で絞り込み
+  --prefecture <名前>       都道府県で絞り込み
+  --region <名前>           地域で絞り込み
+  --season <季節>           季節で絞り込み（春/夏/秋/冬）
+  --limit <件数>            最大件数（1-${MAX_LIMIT}、既定: ${DEFAULT_SEARCH_LIMIT}）
+  --json                    JSON で出力
+  -h, --help                このヘルプを表示`,
+  async run(args, io) {
+    const { values, positionals } = parseCommandArgs(
+      args,
+      {
+        ...HELP_OPTION,
+        poet: { type: "string" },
+        prefecture: { type: "string" },
+        region: { type: "string" },
+        season: { type: "string" },
+        limit: { type: "string" },
+        json: { type: "boolean" },
+      },
+      true,
+    );
+
+    const query = positionals.join(" ").trim();
+    const options: SearchOptions = {
+      limit:
+        parseIntegerOption("limit", values.limit, 1, MAX_LIMIT) ??
+        DEFAULT_SEARCH_LIMIT,
+    };
+    if (query) {
+      options.q = query;
+    }
+    if (values.poet) {
+      options.poet_name_contains = values.poet;
+    }
+    if (values.prefecture) {
+      options.prefecture = values.prefecture;
+    }
+    if (values.region) {
+      options.region = values.region;
+    }
+    if (values.season) {
+      options.season = values.season;
+    }
+    if (Object.keys(options).length === 1) {
+      throw new CliUsageError("キーワードまたは絞り込み条件を指定してください");
+    }
+
+    await enableOfflineSnapshotFromEnv();
+    const monuments = await fetchMonuments(options);
+
+    if (values.json) {
+      io.stdout.write(`${JSON.stringify(monuments, null, 2)}\n`);
+    } else if (monuments.length === 0) {
+      io.stdout.write("該当する句碑は見つかりませんでした\n");
+    } else {
+      io.stdout.write(
+        `${monuments.map(formatMonumentForDisplay).join("\n\n")}\n`,
+      );
+    }
+    return EXIT_CODES.SUCCESS;
+  },
+};
+
+const COMMANDS: Readonly<Record<string, CliCommand>> = {
+  serve: serveCommand,
+  export: exportCommand,
+  snapshot: snapshotCommand,
+  stats: statsCommand,
+  search: searchCommand,
+};
+
+function formatMainHelp(): string {
+  const commandList = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(10)}${command.summary}`)
+    .join("\n");
+
+  return `使い方: ${PROGRAM_NAME} [コマンド] [オプション]
+
+句碑 API の MCP サーバーとデータ操作用のコマンドです。
+コマンドを省略すると serve（stdio）として起動します。
+
+コマンド:
+${commandList}
+  help      コマンドのヘルプを表示
+
+各コマンドの詳細は「${PROGRAM_NAME} <コマンド> --help」で確認できます。`;
+}
+
+function wantsHelp(args: readonly string[]): boolean {
+  return args.includes("--help") || args.includes("-h");
+}
+
+/**
+ * コマンドライン引数を解釈してサブコマンドを実行する
+ *
+ * 終了コードを返す。サーバーを起動した場合は null を返す。
+ */
+export async function runCli(
+  argv: readonly string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr },
+): Promise<number | null> {
+  const [first, ...rest] = argv;
+
+  if (first === "--help" || first === "-h") {
+    io.stdout.write(`${formatMainHelp()}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (first === "help") {
+    const target = rest[0] ? COMMANDS[rest[0]] : undefined;
+    if (rest[0] && !target) {
+      io.stderr.write(
+        `不明なコマンドです: ${rest[0]}\n\n${formatMainHelp()}\n`,
+      );
+      return EXIT_CODES.USAGE;
+    }
+    io.stdout.write(`${target ? target.help : formatMainHelp()}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const commandName =
+    first === undefined || first.startsWith("-") ? "serve" : first;
+  const args = commandName === first ? rest : [...argv];
+  const command = COMMANDS[commandName];
+
+  if (!command) {
+    io.stderr.write(
+      `不明なコマンドです: ${commandName}\n\n${formatMainHelp()}\n`,
+    );
+    return EXIT_CODES.USAGE;
+  }
+
+  if (wantsHelp(args)) {
+    io.stdout.write(`${command.help}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  try {
+    return await command.run(args, io);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr.write(`エラー: ${error.message}\n\n${command.help}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    io.stderr.write(
+      `エラー: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return EXIT_CODES.FAILURE;
+  }
+}
@@ -4,7 +4,37 @@ export const CONFIG = {
   MAX_LIMIT: 100,
   REQUEST_TIMEOUT: 30000,
   RETRY_ATTEMPTS: 3,
+  RETRY_BASE_DELAY: 1000,
+  RETRY_MAX_DELAY: 5000,
+  // Retry-After がこれより長い場合は待たずにエラーを返す
+  RETRY_AFTER_MAX: 10000,
+  CIRCUIT_BREAKER_THRESHOLD: 5,
+  CIRCUIT_BREAKER_COOLDOWN: 30000,
   CACHE_DURATION: 300000,
+  // 有効期間を過ぎたキャッシュを返しながらバックグラウンドで更新する期間
+  CACHE_STALE_WHILE_REVALIDATE: 3600000, // 1時間
+  CACHE_MAX_MEMORY_BYTES: 50 * 1024 * 1024, // 50MB
+  CACHE_MAX_DISK_BYTES: 200 * 1024 * 1024, // 200MB
+  // 句碑ストアの差分同期と、削除を検出するための全件の突き合わせの間隔
+  MONUMENT_SYNC_INTERVAL: 300000, // 5分
+  MONUMENT_RECONCILE_INTERVAL: 3600000, // 1時間
+  MONUMENT_SYNC_OVERLAP: 60000, // 差分の取得で最高水位から遡る時間（1分）
+  HTTP_MAX_SESSIONS: 100,
+  HTTP_SESSION_IDLE_TIMEOUT: 1800000, // 30分
+  HTTP_MAX_BODY_BYTES: 4 * 1024 * 1024, // 4MB
+  READY_PROBE_TIMEOUT: 5000,
+  READY_PROBE_CACHE_DURATION: 10000,
+  HTTP_RATE_LIMIT_PER_MINUTE: 120,
+  HTTP_DAILY_QUOTA: 10000,
+  // 全件取得を伴う重い Tool は全体の上限とは別に呼び出し回数を制限する
+  HTTP_TOOL_RATE_LIMITS_PER_MINUTE: {
+    analyze_monuments_statistics: 5,
+    compare_poets_styles: 10,
+    get_haiku_monuments_geojson: 10,
+    search_monuments_in_area: 20,
+    explore_monuments_for_tourism: 30,
+    list_recent_monument_changes: 30,
+  },
 } as const;
 
 export const ENDPOINTS = {
@@ -16,5 +46,12 @@ export const ENDPOINTS = {
   LOCATIONS: "/locations",
 } as const;
 
+// エンドポイント別のキャッシュ有効期間（ミリ秒）。未指定は CACHE_DURATION
+export const CACHE_TTL_BY_ENDPOINT: Readonly<Record<string, number>> = {
+  [ENDPOINTS.POETS]: 3600000,
+  [ENDPOINTS.SOURCES]: 3600000,
+  [ENDPOINTS.LOCATIONS]: 1800000,
+};
+
 export type Config = typeof CONFIG;
 export type Endpoints = typeof ENDPOINTS;
@@ -0,0 +1,148 @@
+export type ApiErrorCode =
+  | "HTTP_ERROR"
+  | "NOT_FOUND"
+  | "UPSTREAM_ERROR"
+  | "RATE_LIMITED"
+  | "TIMEOUT"
+  | "VALIDATION_FAILED"
+  | "NETWORK_ERROR"
+  | "CIRCUIT_OPEN";
+
+export interface ApiErrorOptions {
+  /** 集計用のエンドポイント（例: `/monuments/:id`） */
+  readonly endpoint: string;
+  readonly status?: number | null;
+  /** 同じリクエストを再試行すれば成功する見込みがあるか */
+  readonly retryable?: boolean;
+  readonly cause?: unknown;
+}
+
+/**
+ * 句碑 API の呼び出しで発生したエラー
+ *
+ * 想定外のステータスコード（400 など）はこのクラスのまま送出し、
+ * 利用者が扱い分ける必要のあるものはサブクラスで表す。
+ */
+export class ApiError extends Error {
+  override readonly name: string = "ApiError";
+  readonly code: ApiErrorCode = "HTTP_ERROR";
+  readonly endpoint: string;
+  readonly status: number | null;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(
+      message,
+      options.cause === undefined ? undefined : { cause: options.cause },
+    );
+    this.endpoint = options.endpoint;
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** 指定した ID のデータが存在しない（404） */
+export class NotFoundError extends ApiError {
+  override readonly name = "NotFoundError";
+  override readonly code = "NOT_FOUND";
+  /** API のリソース（例: `/monuments`） */
+  readonly resource: string;
+  readonly id: number | string | null;
+
+  constructor(
+    resource: string,
+    id: number | string | undefined,
+    endpoint = resource,
+  ) {
+    super(
+      id === undefined
+        ? `Not found: ${resource}`
+        : `Not found: ${resource}/${id}`,
+      { endpoint, status: 404 },
+    );
+    this.resource = resource;
+    this.id = id ?? null;
+  }
+}
+
+/** 上流の API がサーバーエラー（5xx）を返した */
+export class UpstreamServerError extends ApiError {
+  override readonly name = "UpstreamServerError";
+  override readonly code = "UPSTREAM_ERROR";
+
+  constructor(endpoint: string, status: number, body: string) {
+    super(`API Error (${status}): ${body}`, {
+      endpoint,
+      status,
+      retryable: true,
+    });
+  }
+}
+
+/** 上流の API の利用制限に達した（429） */
+export class RateLimitedError extends ApiError {
+  override readonly name = "RateLimitedError";
+  override readonly code = "RATE_LIMITED";
+  /** `Retry-After` で指定された待機時間（秒） */
+  readonly retryAfterSeconds: number | null;
+
+  constructor(endpoint: string, retryAfterSeconds: number | null) {
+    super("API Error (429): Too Many Requests", {
+      endpoint,
+      status: 429,
+      retryable: true,
+    });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** 上流の API が時間内に応答しなかった */
+export class TimeoutError extends ApiError {
+  override readonly name = "TimeoutError";
+  override readonly code = "TIMEOUT";
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request timeout after ${timeoutMs}ms`, {
+      endpoint,
+      retryable: true,
+    });
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** レスポンスを JSON として解釈できない、または想定した形式でない */
+export class ValidationFailedError extends ApiError {
+  override readonly name = "ValidationFailedError";
+  override readonly code = "VALIDATION_FAILED";
+
+  constructor(endpoint: string, message: string, cause?: unknown) {
+    super(message, { endpoint, cause });
+  }
+}
+
+/** 接続できないなど、応答を受け取る前に通信が失敗した */
+export class NetworkError extends ApiError {
+  override readonly name = "NetworkError";
+  override readonly code = "NETWORK_ERROR";
+
+  constructor(endpoint: string, cause: unknown) {
+    super(
+      `Network error: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { endpoint, retryable: true, cause },
+    );
+  }
+}
+
+/** 失敗が続いているため、エンドポイントへのリクエストを一時的に止めている */
+export class CircuitOpenError extends ApiError {
+  override readonly name = "CircuitOpenError";
+  override readonly code = "CIRCUIT_OPEN";
+  /** リクエストを再開するまでの秒数 */
+  readonly retryAfterSeconds: number;
+
+  constructor(endpoint: string, retryAfterSeconds: number) {
+    super(`Circuit open for ${endpoint}`, { endpoint });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
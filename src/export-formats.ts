@@ -0,0 +1,197 @@
+import path from "node:path";
+import type { GeoJSONFeature, GeoJSONFeatureCollection } from "./types.js";
+
+export const EXPORT_FORMATS = ["geojson", "kml", "gpx", "csv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_MIME_TYPES: Readonly<Record<ExportFormat, string>> = {
+  geojson: "application/geo+json",
+  kml: "application/vnd.google-earth.kml+xml",
+  gpx: "application/gpx+xml",
+  csv: "text/csv",
+};
+
+const FORMAT_BY_EXTENSION: Readonly<Record<string, ExportFormat>> = {
+  ".geojson": "geojson",
+  ".json": "geojson",
+  ".kml": "kml",
+  ".gpx": "gpx",
+  ".csv": "csv",
+};
+
+type FeatureProperties = GeoJSONFeature["properties"];
+
+// GeoJSONFeature の properties と同じ項目・順序で出力する
+const PROPERTY_KEYS = [
+  "id",
+  "inscription",
+  "canonical_name",
+  "commentary",
+  "media_url",
+  "poet_name",
+  "prefecture",
+  "region",
+  "address",
+  "place_name",
+] as const satisfies readonly (keyof FeatureProperties)[];
+
+const CSV_BOM = "\uFEFF";
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 出力ファイルの拡張子から形式を推定する。不明な拡張子は GeoJSON とする
+ */
+export function inferExportFormat(outputPath: string): ExportFormat {
+  return (
+    FORMAT_BY_EXTENSION[path.extname(outputPath).toLowerCase()] ?? "geojson"
+  );
+}
+
+function propertyText(value: FeatureProperties[keyof FeatureProperties]) {
+  return value == null ? "" : String(value);
+}
+
+/**
+ * XML の特殊文字をエスケープし、XML 1.0 で使えない制御文字を取り除く
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/gu, "&amp;")
+    .replace(/</gu, "&lt;")
+    .replace(/>/gu, "&gt;")
+    .replace(/"/gu, "&quot;")
+    .replace(/'/gu, "&apos;");
+}
+
+/**
+ * RFC 4180 に従って CSV のフィールドをクォートする
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/u.test(value) ? `"${value.replace(/"/gu, '""')}"` : value;
+}
+
+/**
+ * 表計算ソフトが数式として解釈する文字（`=` `+` `-` `@` など）で始まるテキストの先頭に `'` を付ける
+ *
+ * 句碑のテキストは上流のデータセットに由来するため、CSV を開いたときに数式が実行されないようにする。
+ */
+export function neutralizeCsvFormula(value: string): string {
+  return /^[=+\-@\t\r]/u.test(value) ? `'${value}` : value;
+}
+
+function featureDescription(properties: FeatureProperties): string {
+  return [
+    properties.inscription,
+    `俳人: ${properties.poet_name}`,
+    properties.address ? `住所: ${properties.address}` : null,
+    properties.commentary,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+}
+
+function toKml(collection: GeoJSONFeatureCollection): string {
+  const placemarks = collection.features.map((feature) => {
+    const { properties } = feature;
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const data = PROPERTY_KEYS.map(
+      (key) =>
+        `        <Data name="${key}"><value>${escapeXml(propertyText(properties[key]))}</value></Data>`,
+    ).join("\n");
+
+    return `    <Placemark id="monument-${properties.id}">
+      <name>${escapeXml(properties.canonical_name)}</name>
+      <description>${escapeXml(featureDescription(properties))}</description>
+      <ExtendedData>
+${data}
+      </ExtendedData>
+      <Point><coordinates>${longitude},${latitude},0</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>句碑</name>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+function toGpx(collection: GeoJSONFeatureCollection): string {
+  const waypoints = collection.features.map((feature) => {
+    const { properties } = feature;
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const extensions = PROPERTY_KEYS.map(
+      (key) =>
+        `        <kuhi:${key}>${escapeXml(propertyText(properties[key]))}</kuhi:${key}>`,
+    ).join("\n");
+    const link = properties.media_url
+      ? `\n      <link href="${escapeXml(properties.media_url)}"/>`
+      : "";
+
+    return `    <wpt lat="${latitude}" lon="${longitude}">
+      <name>${escapeXml(properties.canonical_name)}</name>
+      <desc>${escapeXml(featureDescription(properties))}</desc>${link}
+      <type>句碑</type>
+      <extensions>
+${extensions}
+      </extensions>
+    </wpt>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="kuhi-api-mcp-server" xmlns="http://www.topografix.com/GPX/1/1" xmlns:kuhi="https://api.kuhi.jp/gpx/1">
+${waypoints.join("\n")}
+</gpx>
+`;
+}
+
+/**
+ * 表計算ソフトで日本語が文字化けしないよう BOM 付き UTF-8・CRLF 改行で出力する
+ */
+function toCsv(collection: GeoJSONFeatureCollection): string {
+  const header = [...PROPERTY_KEYS, "longitude", "latitude"];
+  const rows = collection.features.map((feature) => {
+    const [longitude, latitude] = feature.geometry.coordinates;
+    return [
+      ...PROPERTY_KEYS.map((key) => {
+        const value = feature.properties[key];
+        return typeof value === "string"
+          ? neutralizeCsvFormula(value)
+          : propertyText(value);
+      }),
+      String(longitude),
+      String(latitude),
+    ];
+  });
+
+  return `${CSV_BOM}${[header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")}\r\n`;
+}
+
+/**
+ * GeoJSON FeatureCollection を指定の形式の文字列に変換する
+ */
+export function serializeFeatureCollection(
+  collection: GeoJSONFeatureCollection,
+  format: ExportFormat,
+): string {
+  switch (format) {
+    case "geojson":
+      return JSON.stringify(collection, null, 2);
+    case "kml":
+      return toKml(collection);
+    case "gpx":
+      return toGpx(collection);
+    case "csv":
+      return toCsv(collection);
+  }
+}
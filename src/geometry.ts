@@ -0,0 +1,87 @@
+import type { BoundingBox } from "./local-query.js";
+import type { GeoJSONAreaGeometry } from "./types.js";
+
+type Position = readonly [number, number];
+type LinearRing = readonly Position[];
+type PolygonRings = readonly LinearRing[];
+
+function polygonsOf(geometry: GeoJSONAreaGeometry): readonly PolygonRings[] {
+  return geometry.type === "Polygon"
+    ? [geometry.coordinates]
+    : geometry.coordinates;
+}
+
+/**
+ * レイキャスティング法で点がリングの内側にあるかを判定する
+ */
+function isPointInRing(
+  longitude: number,
+  latitude: number,
+  ring: LinearRing,
+): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as Position;
+    const [xj, yj] = ring[j] as Position;
+    const crosses =
+      yi > latitude !== yj > latitude &&
+      longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 点が Polygon / MultiPolygon の内側にあるかを判定する
+ *
+ * 各ポリゴンの1番目のリングを外周、2番目以降を穴として扱う。
+ */
+export function isPointInAreaGeometry(
+  longitude: number,
+  latitude: number,
+  geometry: GeoJSONAreaGeometry,
+): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) => {
+    if (!outer || !isPointInRing(longitude, latitude, outer)) {
+      return false;
+    }
+    return !holes.some((hole) => isPointInRing(longitude, latitude, hole));
+  });
+}
+
+/**
+ * Polygon / MultiPolygon の外接矩形を求める
+ */
+export function getAreaGeometryBbox(
+  geometry: GeoJSONAreaGeometry,
+): BoundingBox {
+  let minLongitude = Number.POSITIVE_INFINITY;
+  let minLatitude = Number.POSITIVE_INFINITY;
+  let maxLongitude = Number.NEGATIVE_INFINITY;
+  let maxLatitude = Number.NEGATIVE_INFINITY;
+
+  for (const [outer] of polygonsOf(geometry)) {
+    for (const [longitude, latitude] of outer ?? []) {
+      minLongitude = Math.min(minLongitude, longitude);
+      minLatitude = Math.min(minLatitude, latitude);
+      maxLongitude = Math.max(maxLongitude, longitude);
+      maxLatitude = Math.max(maxLatitude, latitude);
+    }
+  }
+
+  return { minLongitude, minLatitude, maxLongitude, maxLatitude };
+}
+
+/**
+ * 外接矩形を API の `bbox` パラメータ形式（"最小経度,最小緯度,最大経度,最大緯度"）にする
+ */
+export function formatBbox(bbox: BoundingBox): string {
+  return [
+    bbox.minLongitude,
+    bbox.minLatitude,
+    bbox.maxLongitude,
+    bbox.maxLatitude,
+  ].join(",");
+}
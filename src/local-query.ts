@@ -0,0 +1,393 @@
+import { ENDPOINTS } from "./config.js";
+import { NotFoundError } from "./errors.js";
+import type { SnapshotBundle } from "./snapshot.js";
+import type {
+  InscriptionsResponse,
+  Location,
+  Monument,
+  PoemsResponse,
+  Poet,
+  Source,
+} from "./types.js";
+import { parseApiTimestamp } from "./utils.js";
+
+type QueryParams = Readonly<Record<string, string>>;
+type FilterPredicate<T> = (record: T, value: string) => boolean;
+
+interface CollectionQuery<T> {
+  readonly filters: Readonly<Record<string, FilterPredicate<T>>>;
+  readonly searchableText: (
+    record: T,
+  ) => readonly (string | null | undefined)[];
+}
+
+export interface BoundingBox {
+  readonly minLongitude: number;
+  readonly minLatitude: number;
+  readonly maxLongitude: number;
+  readonly maxLatitude: number;
+}
+
+/**
+ * `bbox` パラメータ（"最小経度,最小緯度,最大経度,最大緯度"）を解析する
+ */
+export function parseBbox(value: string): BoundingBox | null {
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+
+  const [minLongitude, minLatitude, maxLongitude, maxLatitude] = parts as [
+    number,
+    number,
+    number,
+    number,
+  ];
+  return { minLongitude, minLatitude, maxLongitude, maxLatitude };
+}
+
+export function isLocationInBbox(
+  location: Pick<Location, "latitude" | "longitude">,
+  bbox: BoundingBox,
+): boolean {
+  return (
+    location.latitude != null &&
+    location.longitude != null &&
+    location.longitude >= bbox.minLongitude &&
+    location.longitude <= bbox.maxLongitude &&
+    location.latitude >= bbox.minLatitude &&
+    location.latitude <= bbox.maxLatitude
+  );
+}
+
+function includesText(
+  value: string | null | undefined,
+  query: string,
+): boolean {
+  return value?.includes(query) ?? false;
+}
+
+function isAfter(value: string | null | undefined, threshold: string): boolean {
+  return parseApiTimestamp(value) > parseApiTimestamp(threshold);
+}
+
+function isBefore(
+  value: string | null | undefined,
+  threshold: string,
+): boolean {
+  return parseApiTimestamp(value) < parseApiTimestamp(threshold);
+}
+
+function parseBoolean(value: string): boolean {
+  return value === "true" || value === "1";
+}
+
+function timestampFilters<
+  T extends { created_at?: string; updated_at?: string },
+>(): Record<string, FilterPredicate<T>> {
+  return {
+    created_at_gt: (record, value) => isAfter(record.created_at, value),
+    created_at_lt: (record, value) => isBefore(record.created_at, value),
+    updated_at_gt: (record, value) => isAfter(record.updated_at, value),
+    updated_at_lt: (record, value) => isBefore(record.updated_at, value),
+  };
+}
+
+function monumentPoems(monument: Monument) {
+  return (monument.inscriptions ?? []).flatMap((i) => i.poems ?? []);
+}
+
+const MONUMENT_QUERY: CollectionQuery<Monument> = {
+  filters: {
+    ...timestampFilters<Monument>(),
+    prefecture: (m, value) =>
+      m.locations?.some((l) => l.prefecture === value) ?? false,
+    municipality: (m, value) =>
+      m.locations?.some((l) => includesText(l.municipality, value)) ?? false,
+    region: (m, value) => m.locations?.some((l) => l.region === value) ?? false,
+    location_id: (m, value) =>
+      m.locations?.some((l) => l.id === Number(value)) ?? false,
+    bbox: (m, value) => {
+      const bbox = parseBbox(value);
+      return (
+        bbox !== null &&
+        (m.locations?.some((l) => isLocationInBbox(l, bbox)) ?? false)
+      );
+    },
+    poet_id: (m, value) =>
+      m.poets?.some((p) => p.id === Number(value)) ?? false,
+    poet_name_contains: (m, value) =>
+      m.poets?.some((p) => includesText(p.name, value)) ?? false,
+    season: (m, value) => monumentPoems(m).some((p) => p.season === value),
+    kigo: (m, value) =>
+      monumentPoems(m).some((p) => includesText(p.kigo, value)),
+    material: (m, value) => includesText(m.material, value),
+    monument_type: (m, value) => includesText(m.monument_type, value),
+    inscription_contains: (m, value) =>
+      m.inscriptions?.some(
+        (i) =>
+          includesText(i.original_text, value) ||
+          includesText(i.reading, value) ||
+          (i.poems?.some((p) => includesText(p.text, value)) ?? false),
+      ) ?? false,
+    commentary_contains: (m, value) =>
+      m.inscriptions?.some((i) => includesText(i.notes, value)) ?? false,
+    established_start: (m, value) =>
+      (m.interval_start ?? m.original_established_date ?? "") >= value,
+    established_end: (m, value) => {
+      const established = m.interval_end ?? m.original_established_date;
+      return established != null && established <= value;
+    },
+    has_media: (m, value) => (m.media?.length ?? 0) > 0 === parseBoolean(value),
+    uncertain: (m, value) =>
+      (m.uncertainty_note != null) === parseBoolean(value),
+  },
+  searchableText: (m) => [
+    m.canonical_name,
+    ...(m.poets ?? []).map((p) => p.name),
+    ...(m.locations ?? []).flatMap((l) => [
+      l.prefecture,
+      l.municipality,
+      l.place_name,
+      l.address,
+    ]),
+    ...(m.inscriptions ?? []).flatMap((i) => [i.original_text, i.notes]),
+    ...monumentPoems(m).map((p) => p.text),
+  ],
+};
+
+const POET_QUERY: CollectionQuery<Poet> = {
+  filters: {
+    ...timestampFilters<Poet>(),
+    name_contains: (p, value) =>
+      includesText(p.name, value) || includesText(p.name_kana, value),
+    biography_contains: (p, value) => includesText(p.biography, value),
+  },
+  searchableText: (p) => [p.name, p.name_kana, p.biography],
+};
+
+const SOURCE_QUERY: CollectionQuery<Source> = {
+  filters: {
+    ...timestampFilters<Source>(),
+    title_contains: (s, value) => includesText(s.title, value),
+    author_contains: (s, value) => includesText(s.author, value),
+  },
+  searchableText: (s) => [s.citation, s.title, s.author, s.publisher],
+};
+
+const LOCATION_QUERY: CollectionQuery<Location> = {
+  filters: {
+    ...timestampFilters<Location>(),
+    prefecture: (l, value) => l.prefecture === value,
+    municipality: (l, value) => includesText(l.municipality, value),
+    region: (l, value) => l.region === value,
+    bbox: (l, value) => {
+      const bbox = parseBbox(value);
+      return bbox !== null && isLocationInBbox(l, bbox);
+    },
+  },
+  searchableText: (l) => [
+    l.prefecture,
+    l.municipality,
+    l.place_name,
+    l.address,
+  ],
+};
+
+type PoemRecord = PoemsResponse["poems"][number];
+type InscriptionRecord = InscriptionsResponse["inscriptions"][number];
+
+const POEM_QUERY: CollectionQuery<PoemRecord> = {
+  filters: {
+    ...timestampFilters<PoemRecord>(),
+    text_contains: (p, value) =>
+      includesText(p.text, value) || includesText(p.normalized_text, value),
+    kigo: (p, value) => includesText(p.kigo, value),
+    season: (p, value) => p.season === value,
+    poet_id: (p, value) =>
+      p.attributions?.some((a) => a.poet_id === Number(value)) ?? false,
+    monument_id: (p, value) =>
+      p.inscriptions?.some((i) => i.monument_id === Number(value)) ?? false,
+  },
+  searchableText: (p) => [p.text, p.kigo],
+};
+
+const INSCRIPTION_QUERY: CollectionQuery<InscriptionRecord> = {
+  filters: {
+    ...timestampFilters<InscriptionRecord>(),
+    monument_id: (i, value) => i.monument_id === Number(value),
+    language: (i, value) => i.language === value,
+    text_contains: (i, value) =>
+      includesText(i.original_text, value) ||
+      includesText(i.reading, value) ||
+      includesText(i.transliteration, value),
+  },
+  searchableText: (i) => [i.original_text, i.reading, i.notes],
+};
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a ?? "").localeCompare(String(b ?? ""));
+}
+
+// 絞り込み以外のパラメータ。expand はスナップショットが展開済みのため無視する
+const CONTROL_PARAMS: ReadonlySet<string> = new Set([
+  "q",
+  "search",
+  "ordering",
+  "offset",
+  "limit",
+  "expand",
+]);
+
+function applyQuery<T extends object>(
+  records: readonly T[],
+  query: CollectionQuery<T>,
+  params: QueryParams = {},
+): T[] {
+  // 評価できない条件を無視すると絞り込まれていない結果を返してしまうため、先に拒否する
+  for (const key of Object.keys(params)) {
+    if (!CONTROL_PARAMS.has(key) && !Object.hasOwn(query.filters, key)) {
+      throw new Error(
+        `Unsupported query parameter for local filtering: ${key}`,
+      );
+    }
+  }
+
+  let result = records.filter((record) =>
+    Object.entries(params).every(([key, value]) => {
+      if (!value) return true;
+
+      if (key === "q" || key === "search") {
+        return query
+          .searchableText(record)
+          .some((text) => includesText(text, value));
+      }
+
+      const predicate = query.filters[key];
+      return predicate ? predicate(record, value) : true;
+    }),
+  );
+
+  const { ordering, offset, limit } = params;
+  if (ordering) {
+    const descending = ordering.startsWith("-");
+    const field = descending ? ordering.slice(1) : ordering;
+    result = [...result].sort((a, b) => {
+      const order = compareValues(
+        (a as Record<string, unknown>)[field],
+        (b as Record<string, unknown>)[field],
+      );
+      return descending ? -order : order;
+    });
+  }
+
+  const start = offset ? Number.parseInt(offset, 10) || 0 : 0;
+  const end = limit ? start + (Number.parseInt(limit, 10) || 0) : undefined;
+  return result.slice(start, end);
+}
+
+export function filterMonuments(
+  records: readonly Monument[],
+  params?: QueryParams,
+): Monument[] {
+  return applyQuery(records, MONUMENT_QUERY, params);
+}
+
+export function filterPoets(
+  records: readonly Poet[],
+  params?: QueryParams,
+): Poet[] {
+  return applyQuery(records, POET_QUERY, params);
+}
+
+export function filterSources(
+  records: readonly Source[],
+  params?: QueryParams,
+): Source[] {
+  return applyQuery(records, SOURCE_QUERY, params);
+}
+
+export function filterLocations(
+  records: readonly Location[],
+  params?: QueryParams,
+): Location[] {
+  return applyQuery(records, LOCATION_QUERY, params);
+}
+
+export function filterPoems(
+  records: readonly PoemRecord[],
+  params?: QueryParams,
+): PoemRecord[] {
+  return applyQuery(records, POEM_QUERY, params);
+}
+
+export function filterInscriptions(
+  records: readonly InscriptionRecord[],
+  params?: QueryParams,
+): InscriptionRecord[] {
+  return applyQuery(records, INSCRIPTION_QUERY, params);
+}
+
+function findById<T extends { id: number }>(
+  records: readonly T[],
+  id: number | string,
+  endpoint: string,
+): T {
+  const record = records.find((r) => r.id === Number(id));
+  if (!record) {
+    throw new NotFoundError(endpoint, id);
+  }
+  return record;
+}
+
+/**
+ * スナップショットに対して API と同じ形式でリクエストを解決する
+ */
+export function querySnapshot(
+  bundle: SnapshotBundle,
+  endpoint: string,
+  id?: number | string,
+  params?: QueryParams,
+): unknown {
+  const { collections } = bundle;
+
+  const poetMonuments = endpoint.match(/^\/poets\/(\d+)\/monuments$/u);
+  if (poetMonuments?.[1]) {
+    return filterMonuments(collections.monuments, {
+      ...params,
+      poet_id: poetMonuments[1],
+    });
+  }
+
+  switch (endpoint) {
+    case ENDPOINTS.MONUMENTS:
+      return id !== undefined
+        ? findById(collections.monuments, id, endpoint)
+        : filterMonuments(collections.monuments, params);
+    case ENDPOINTS.POETS:
+      return id !== undefined
+        ? findById(collections.poets, id, endpoint)
+        : filterPoets(collections.poets, params);
+    case ENDPOINTS.SOURCES:
+      return id !== undefined
+        ? findById(collections.sources, id, endpoint)
+        : filterSources(collections.sources, params);
+    case ENDPOINTS.LOCATIONS:
+      return id !== undefined
+        ? findById(collections.locations, id, endpoint)
+        : filterLocations(collections.locations, params);
+    case ENDPOINTS.POEMS:
+      return { poems: filterPoems(collections.poems, params) };
+    case ENDPOINTS.INSCRIPTIONS:
+      return {
+        inscriptions: filterInscriptions(collections.inscriptions, params),
+      };
+    default:
+      throw new Error(
+        `Endpoint not available in offline snapshot: ${endpoint}`,
+      );
+  }
+}
@@ -1,5 +1,11 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
+export type LogFormat = "text" | "json";
+
+export type LogFields = Readonly<Record<string, unknown>>;
+
 const LOG_LEVELS: Readonly<Record<LogLevel, number>> = {
   debug: 0,
   info: 1,
@@ -7,36 +13,285 @@ const LOG_LEVELS: Readonly<Record<LogLevel, number>> = {
   error: 3,
 } as const;
 
-class Logger {
+export interface SerializedError {
+  readonly name: string;
+  readonly message: string;
+  readonly stack?: string;
+  readonly code?: unknown;
+  readonly cause?: unknown;
+}
+
+// 別の realm で作られたエラーなど、`instanceof Error` にならないものも含める
+function isErrorLike(value: unknown): value is Error {
+  return (
+    value instanceof Error ||
+    (typeof value === "object" &&
+      value !== null &&
+      typeof (value as { message?: unknown }).message === "string")
+  );
+}
+
+/**
+ * `Error` を JSON に変換できる形にする。`cause` も再帰的に変換する
+ */
+export function serializeError(
+  error: Error,
+  options: { readonly includeStack?: boolean } = {},
+  depth = 0,
+): SerializedError {
+  const { includeStack = true } = options;
+  const { code } = error as Error & { code?: unknown };
+  const { cause } = error;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(includeStack && error.stack ? { stack: error.stack } : {}),
+    ...(code !== undefined ? { code } : {}),
+    ...(cause !== undefined
+      ? {
+          cause:
+            isErrorLike(cause) && depth < 5
+              ? serializeError(cause, options, depth + 1)
+              : cause,
+        }
+      : {}),
+  };
+}
+
+function toJson(value: unknown, includeStack = true): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (current instanceof Error) {
+      return serializeError(current, { includeStack });
+    }
+    if (typeof current === "bigint") {
+      return current.toString();
+    }
+    if (typeof current === "object" && current !== null) {
+      if (seen.has(current)) {
+        return "[Circular]";
+      }
+      seen.add(current);
+    }
+    return current;
+  });
+}
+
+/**
+ * ログの値を JSON として送信できる形にする（`Error` の変換・循環参照の除去）
+ */
+export function toLogData(
+  value: unknown,
+  options: { readonly includeStack?: boolean } = {},
+): unknown {
+  const json = toJson(value, options.includeStack ?? true);
+  return json === undefined ? undefined : JSON.parse(json);
+}
+
+export interface LogRecord {
+  readonly level: LogLevel;
+  readonly message: string;
+  /** ロガーにバインドしたフィールドとログコンテキスト */
+  readonly context: LogFields;
+  /** オブジェクトの引数を展開したフィールド */
+  readonly fields: LogFields;
+  /** オブジェクト以外の引数（文字列や `Error` など） */
+  readonly args: readonly unknown[];
+}
+
+function splitArgs(args: readonly unknown[]): {
+  fields: LogFields;
+  extra: unknown[];
+} {
+  const fields: Record<string, unknown> = {};
+  const extra: unknown[] = [];
+  for (const arg of args) {
+    if (
+      typeof arg === "object" &&
+      arg !== null &&
+      !Array.isArray(arg) &&
+      !(arg instanceof Error)
+    ) {
+      Object.assign(fields, arg);
+    } else {
+      extra.push(arg);
+    }
+  }
+  return { fields, extra };
+}
+
+/**
+ * stderr とは別にログを受け取る出力先。ログレベルによる絞り込みは受け取る側で行う
+ */
+export type LogSink = (record: LogRecord) => void;
+
+const logContext = new AsyncLocalStorage<LogFields>();
+const logSink = new AsyncLocalStorage<LogSink>();
+
+/**
+ * `fn` の実行中（非同期処理を含む）に出力されるすべてのログを `sink` にも渡す
+ */
+export function runWithLogSink<T>(sink: LogSink, fn: () => T): T {
+  return logSink.run(sink, fn);
+}
+
+/**
+ * `fn` の実行中（非同期処理を含む）に出力されるすべてのログに `fields` を付与する
+ *
+ * 入れ子で呼び出した場合は外側のフィールドを引き継ぐ。
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+export function getLogContext(): LogFields {
+  return logContext.getStore() ?? {};
+}
+
+/**
+ * 呼び出し元のログコンテキストと出力先を引き継がずに `fn` を実行する
+ *
+ * 呼び出し元の処理が終わった後も続くバックグラウンドの処理に使う。
+ */
+export function runOutsideLogContext<T>(fn: () => T): T {
+  return logContext.exit(() => logSink.exit(fn));
+}
+
+interface LogParticipant {
+  readonly context: LogFields;
+  readonly sink: LogSink;
+}
+
+/**
+ * 複数の呼び出し元が共有する処理のログを、参加中の呼び出し元それぞれの出力先に渡す
+ *
+ * 共有する処理は呼び出し元のログコンテキストの外で実行し、出力先には参加した時点の
+ * 呼び出し元のログコンテキストを付与して渡す。離脱した呼び出し元には渡さない。
+ */
+export class SharedLogScope {
+  private readonly participants = new Set<LogParticipant>();
+
+  /**
+   * 現在のログコンテキストと出力先で参加し、離脱するための関数を返す
+   */
+  join(): () => void {
+    const sink = logSink.getStore();
+    if (!sink) {
+      return () => {};
+    }
+    const participant = { context: getLogContext(), sink };
+    this.participants.add(participant);
+    return () => {
+      this.participants.delete(participant);
+    };
+  }
+
+  run<T>(fn: () => T): T {
+    return logContext.exit(() =>
+      logSink.run((record) => this.forward(record), fn),
+    );
+  }
+
+  private forward(record: LogRecord): void {
+    for (const { context, sink } of this.participants) {
+      try {
+        sink({ ...record, context: { ...record.context, ...context } });
+      } catch {
+        // 1つの出力先の失敗で他の呼び出し元への転送を止めない
+      }
+    }
+  }
+}
+
+export interface LoggerOptions {
+  readonly level?: LogLevel;
+  readonly format?: LogFormat;
+  readonly bindings?: LogFields;
+  readonly write?: (line: string) => void;
+}
+
+export class Logger {
   private readonly level: LogLevel;
   private readonly levelPriority: number;
+  private readonly format: LogFormat;
+  private readonly bindings: LogFields;
+  private readonly write: (line: string) => void;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? "warn";
+    this.levelPriority = LOG_LEVELS[this.level];
+    this.format = options.format ?? "text";
+    this.bindings = options.bindings ?? {};
+    this.write =
+      options.write ??
+      ((line) => {
+        process.stderr.write(line);
+      });
+  }
 
-  constructor(level: LogLevel = "warn") {
-    this.level = level;
-    this.levelPriority = LOG_LEVELS[level];
+  /**
+   * 出力先と設定を共有し、すべてのログに `bindings` を付与するロガーを作成する
+   *
+   * @example const log = logger.child({ module: "api" });
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({
+      level: this.level,
+      format: this.format,
+      bindings: { ...this.bindings, ...bindings },
+      write: this.write,
+    });
   }
 
   private shouldLog(level: LogLevel): boolean {
     return LOG_LEVELS[level] >= this.levelPriority;
   }
 
-  private formatMessage(
+  private formatText(
     level: LogLevel,
     message: string,
+    context: LogFields,
     args: readonly unknown[],
   ): string {
     const timestamp = new Date().toISOString();
     const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
+    const contextText = Object.entries(context)
+      .map(([key, value]) => `${key}=${String(value)}`)
+      .join(" ");
+    const head = contextText ? `${prefix} [${contextText}]` : prefix;
 
     if (args.length === 0) {
-      return `${prefix} ${message}\n`;
+      return `${head} ${message}\n`;
     }
 
     const formattedArgs = args
-      .map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg)))
+      .map((arg) => (typeof arg === "string" ? arg : toJson(arg)))
       .join(" ");
 
-    return `${prefix} ${message} ${formattedArgs}\n`;
+    return `${head} ${message} ${formattedArgs}\n`;
+  }
+
+  /**
+   * 1行1エントリの JSON を出力する。オブジェクトの引数はエントリのフィールドに展開し、
+   * それ以外（文字列や `Error` など）は `args` にまとめる
+   */
+  private formatJson(
+    level: LogLevel,
+    message: string,
+    context: LogFields,
+    args: readonly unknown[],
+  ): string {
+    const { fields, extra } = splitArgs(args);
+
+    // 呼び出し元のフィールドで time・level・message を上書きしないよう、予約したキーは後に書く
+    return `${toJson({
+      ...context,
+      ...fields,
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...(extra.length > 0 ? { args: extra } : {}),
+    })}\n`;
   }
 
   private writeLog(
@@ -44,10 +299,26 @@ class Logger {
     message: string,
     args: readonly unknown[],
   ): void {
-    if (!this.shouldLog(level)) return;
+    const sink = logSink.getStore();
+    const shouldWrite = this.shouldLog(level);
+    if (!shouldWrite && !sink) return;
 
-    const formattedMessage = this.formatMessage(level, message, args);
-    process.stderr.write(formattedMessage);
+    const context = { ...this.bindings, ...getLogContext() };
+    if (shouldWrite) {
+      this.write(
+        this.format === "json"
+          ? this.formatJson(level, message, context, args)
+          : this.formatText(level, message, context, args),
+      );
+    }
+    if (sink) {
+      try {
+        const { fields, extra } = splitArgs(args);
+        sink({ level, message, context, fields, args: extra });
+      } catch {
+        // 出力先の失敗でログを呼び出した処理を止めない
+      }
+    }
   }
 
   debug(message: string, ...args: readonly unknown[]): void {
@@ -67,7 +338,9 @@ class Logger {
   }
 }
 
-export const logger = new Logger(
+export const logger = new Logger({
+  // biome-ignore lint/complexity/useLiteralKeys: TypeScriptのインデックスシグネチャ要件により必要
+  level: (process.env["KUHI_LOG_LEVEL"] as LogLevel | undefined) ?? "warn",
   // biome-ignore lint/complexity/useLiteralKeys: TypeScriptのインデックスシグネチャ要件により必要
-  (process.env["KUHI_LOG_LEVEL"] as LogLevel | undefined) ?? "warn",
-);
+  format: process.env["KUHI_LOG_FORMAT"] === "json" ? "json" : "text",
+});
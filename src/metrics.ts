@@ -0,0 +1,252 @@
+type Labels = Readonly<Record<string, string>>;
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+/**
+ * 出力時に値を収集するメトリクス（キャッシュ容量やセッション数など）
+ */
+export interface CollectedMetric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: Exclude<MetricType, "histogram">;
+  readonly samples: readonly (readonly [Labels, number])[];
+}
+
+const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+] as const;
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/gu, "\\\\")
+    .replace(/"/gu, '\\"')
+    .replace(/\n/gu, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort());
+}
+
+function header(name: string, help: string, type: MetricType): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.values.values()].map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+      ),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  readonly labels: Labels;
+  readonly bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: readonly number[] = DEFAULT_DURATION_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        bucketCounts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound && series) {
+        series.bucketCounts[index] = (series.bucketCounts[index] ?? 0) + 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * 処理時間を秒単位で記録する
+   */
+  async time<T>(labels: Labels, task: () => Promise<T>): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      return await task();
+    } finally {
+      this.observe(labels, (performance.now() - startedAt) / 1000);
+    }
+  }
+
+  count(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.count ?? 0;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${bucketCounts[index] ?? 0}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+export const toolCallsTotal = new Counter(
+  "kuhi_tool_calls_total",
+  "Number of MCP tool invocations by tool name and outcome",
+);
+
+export const toolCallDuration = new Histogram(
+  "kuhi_tool_call_duration_seconds",
+  "MCP tool invocation latency in seconds",
+);
+
+export const upstreamRequestsTotal = new Counter(
+  "kuhi_upstream_requests_total",
+  "Number of HTTP requests sent to the upstream API by endpoint and status",
+);
+
+export const upstreamRequestDuration = new Histogram(
+  "kuhi_upstream_request_duration_seconds",
+  "Upstream API request latency in seconds",
+);
+
+export const upstreamRetriesTotal = new Counter(
+  "kuhi_upstream_retries_total",
+  "Number of upstream API request retries by endpoint",
+);
+
+export const upstreamCoalescedRequestsTotal = new Counter(
+  "kuhi_upstream_coalesced_requests_total",
+  "Number of upstream API requests served by joining an identical in-flight request",
+);
+
+export const cacheRequestsTotal = new Counter(
+  "kuhi_cache_requests_total",
+  "Number of API cache lookups by result (hit, stale or miss)",
+);
+
+export const cacheRevalidationsTotal = new Counter(
+  "kuhi_cache_revalidations_total",
+  "Number of conditional requests made to refresh expired cache entries by result",
+);
+
+export const monumentSyncsTotal = new Counter(
+  "kuhi_monument_syncs_total",
+  "Number of local monument store synchronizations by mode and result",
+);
+
+const REGISTERED_METRICS: readonly (Counter | Histogram)[] = [
+  toolCallsTotal,
+  toolCallDuration,
+  upstreamRequestsTotal,
+  upstreamRequestDuration,
+  upstreamRetriesTotal,
+  upstreamCoalescedRequestsTotal,
+  cacheRequestsTotal,
+  cacheRevalidationsTotal,
+  monumentSyncsTotal,
+];
+
+/**
+ * API のエンドポイントを ID を含まない集計用のラベルにする（例: `/poets/12/monuments` → `/poets/:id/monuments`）
+ */
+export function endpointLabel(endpoint: string, id?: number | string): string {
+  const path = id === undefined ? endpoint : `${endpoint}/${id}`;
+  return path.replace(/\/\d+(?=\/|$)/gu, "/:id");
+}
+
+/**
+ * 登録済みのメトリクスと収集したメトリクスを Prometheus のテキスト形式で出力する
+ */
+export function renderMetrics(
+  collected: readonly CollectedMetric[] = [],
+): string {
+  const lines = REGISTERED_METRICS.flatMap((metric) => metric.render());
+  for (const { name, help, type, samples } of collected) {
+    lines.push(
+      ...header(name, help, type),
+      ...samples.map(
+        ([labels, value]) =>
+          `${name}${formatLabels(labels)} ${formatValue(value)}`,
+      ),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function resetMetrics(): void {
+  for (const metric of REGISTERED_METRICS) {
+    metric.reset();
+  }
+}
@@ -0,0 +1,118 @@
+import type { Monument } from "./types.js";
+
+export interface MonumentFieldChange {
+  readonly field: string;
+  /** 表示用の項目名（例: 材質） */
+  readonly label: string;
+  readonly before: string | null;
+  readonly after: string | null;
+}
+
+interface ComparedField {
+  readonly field: string;
+  readonly label: string;
+  readonly value: (monument: Monument) => string | null;
+}
+
+function joined(values: readonly (string | null | undefined)[]): string | null {
+  const present = values.filter((value): value is string => Boolean(value));
+  return present.length > 0 ? present.join("、") : null;
+}
+
+function monumentPoems(monument: Monument) {
+  return (monument.inscriptions ?? []).flatMap((i) => i.poems ?? []);
+}
+
+// 比較する項目。関連データ（俳人・設置場所など）は表示に使う内容だけを比べる
+const COMPARED_FIELDS: readonly ComparedField[] = [
+  { field: "canonical_name", label: "名称", value: (m) => m.canonical_name },
+  { field: "monument_type", label: "種類", value: (m) => m.monument_type },
+  { field: "material", label: "材質", value: (m) => m.material },
+  {
+    field: "original_established_date",
+    label: "建立日",
+    value: (m) => m.original_established_date,
+  },
+  {
+    field: "hu_time_normalized",
+    label: "建立時期",
+    value: (m) => m.hu_time_normalized,
+  },
+  {
+    field: "uncertainty_note",
+    label: "不確実性の注記",
+    value: (m) => m.uncertainty_note,
+  },
+  {
+    field: "verification_status",
+    label: "検証状況",
+    value: (m) => m.verification_status,
+  },
+  {
+    field: "reliability_note",
+    label: "信頼性の注記",
+    value: (m) => m.reliability_note,
+  },
+  {
+    field: "poets",
+    label: "俳人",
+    value: (m) => joined((m.poets ?? []).map((p) => p.name)),
+  },
+  {
+    field: "inscriptions",
+    label: "碑文",
+    value: (m) => joined((m.inscriptions ?? []).map((i) => i.original_text)),
+  },
+  {
+    field: "poems",
+    label: "句",
+    value: (m) => joined(monumentPoems(m).map((p) => p.text)),
+  },
+  {
+    field: "kigo",
+    label: "季語",
+    value: (m) => joined(monumentPoems(m).map((p) => p.kigo)),
+  },
+  {
+    field: "locations",
+    label: "設置場所",
+    value: (m) =>
+      joined(
+        (m.locations ?? []).map((l) =>
+          [
+            `${l.prefecture ?? ""}${l.municipality ?? ""}`,
+            l.place_name,
+            l.latitude != null && l.longitude != null
+              ? `(${l.latitude}, ${l.longitude})`
+              : null,
+          ]
+            .filter(Boolean)
+            .join(" "),
+        ),
+      ),
+  },
+  {
+    field: "sources",
+    label: "出典",
+    value: (m) => joined((m.sources ?? []).map((s) => s.citation)),
+  },
+  {
+    field: "media",
+    label: "写真・資料",
+    value: (m) => (m.media?.length ? `${m.media.length}件` : null),
+  },
+];
+
+/**
+ * 同じ句碑の2つの版を比べ、内容が変わった項目を返す
+ */
+export function diffMonuments(
+  previous: Monument,
+  current: Monument,
+): MonumentFieldChange[] {
+  return COMPARED_FIELDS.flatMap(({ field, label, value }) => {
+    const before = value(previous);
+    const after = value(current);
+    return before === after ? [] : [{ field, label, before, after }];
+  });
+}
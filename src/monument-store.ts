@@ -0,0 +1,304 @@
+import { type CrawlOptions, fetchAllMonuments } from "./api.js";
+import { CONFIG } from "./config.js";
+import { filterMonuments } from "./local-query.js";
+import { logger } from "./logger.js";
+import { monumentSyncsTotal } from "./metrics.js";
+import { SingleFlight } from "./single-flight.js";
+import type { Monument, SearchOptions } from "./types.js";
+import { parseApiTimestamp } from "./utils.js";
+
+const log = logger.child({ module: "monument-store" });
+
+export type MonumentQuery = Omit<SearchOptions, "limit" | "offset">;
+
+/**
+ * 条件に一致するすべての句碑を上流から取得する（テストでは差し替える）
+ */
+export type MonumentCrawler = (
+  options: MonumentQuery,
+  crawl: CrawlOptions,
+) => Promise<Monument[]>;
+
+export interface MonumentStoreOptions {
+  readonly crawl?: MonumentCrawler;
+  /** 前回の同期からこの時間（ミリ秒）が過ぎると、次の参照時に差分を取得する */
+  readonly syncIntervalMs?: number;
+  /** 前回の突き合わせからこの時間（ミリ秒）が過ぎると、全件を取得して削除された句碑を取り除く */
+  readonly reconcileIntervalMs?: number;
+  /** 差分の取得で最高水位から遡る時間（ミリ秒） */
+  readonly overlapMs?: number;
+  readonly now?: () => number;
+}
+
+/**
+ * - initial: 初回の全件取得
+ * - incremental: 前回の同期以降に更新された句碑だけを取得する
+ * - reconcile: 全件を取得し、上流に存在しない ID を削除されたものとして取り除く
+ */
+export type MonumentSyncMode = "initial" | "incremental" | "reconcile";
+
+export interface MonumentSyncResult {
+  readonly mode: MonumentSyncMode;
+  readonly added: number;
+  readonly updated: number;
+  readonly removed: number;
+}
+
+const SYNC_KEY = "monuments";
+
+/**
+ * `timestamp` の `ms` ミリ秒前を同じ形式（タイムゾーンの無い "YYYY-MM-DD HH:MM:SS" または ISO 8601）で返す
+ */
+function shiftTimestamp(timestamp: string, ms: number): string {
+  if (timestamp.includes("T")) {
+    return new Date(parseApiTimestamp(timestamp) - ms).toISOString();
+  }
+  // タイムゾーンの無い日時は、実行環境のタイムゾーンに左右されないよう UTC とみなして計算する
+  const shifted = new Date(Date.parse(`${timestamp.replace(" ", "T")}Z`) - ms);
+  return shifted.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function toQueryParams(options: MonumentQuery = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(options)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)]),
+  );
+}
+
+/**
+ * 上流の句碑を手元に保持し、参照時に必要な分だけ同期する
+ *
+ * 同期済みの句碑のうち最も新しい `updated_at`（最高水位）を記録し、以降の同期では
+ * `updated_at_gt` で最高水位の少し前より後に更新された句碑だけを取得する。差分の取得では削除を
+ * 検出できないため、一定間隔で全件の ID を突き合わせて上流にない句碑を取り除く。
+ * 同期は呼び出し元の間で共有し、全員が中断したときだけ中断する。
+ */
+export class MonumentStore {
+  private readonly records = new Map<number, Monument>();
+  private readonly previousVersions = new Map<number, Monument>();
+  private readonly syncs = new SingleFlight();
+  private readonly crawl: MonumentCrawler;
+  private readonly syncIntervalMs: number;
+  private readonly reconcileIntervalMs: number;
+  private readonly overlapMs: number;
+  private readonly now: () => number;
+  private watermark: string | null = null;
+  private lastSyncedAt: number | null = null;
+  private lastReconciledAt: number | null = null;
+  private revision = 0;
+
+  constructor(options: MonumentStoreOptions = {}) {
+    this.crawl =
+      options.crawl ??
+      ((query, crawl) =>
+        fetchAllMonuments(query, undefined, { ...crawl, noCache: true }));
+    this.syncIntervalMs =
+      options.syncIntervalMs ?? CONFIG.MONUMENT_SYNC_INTERVAL;
+    this.reconcileIntervalMs =
+      options.reconcileIntervalMs ?? CONFIG.MONUMENT_RECONCILE_INTERVAL;
+    this.overlapMs = options.overlapMs ?? CONFIG.MONUMENT_SYNC_OVERLAP;
+    this.now = options.now ?? Date.now;
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  /** 保持している句碑が変わるたびに増える。派生データを作り直すかの判定に使う */
+  get version(): number {
+    return this.revision;
+  }
+
+  /** 同期済みの句碑のうち最も新しい `updated_at`。未同期なら null */
+  get highWaterMark(): string | null {
+    return this.watermark;
+  }
+
+  /**
+   * 同期で更新を検出した句碑の、更新前の内容を返す
+   *
+   * このプロセスで同期した後に更新された句碑だけが対象で、記録がなければ undefined を返す。
+   */
+  previousVersionOf(id: number): Monument | undefined {
+    return this.previousVersions.get(id);
+  }
+
+  /**
+   * 必要であれば同期してから、保持しているすべての句碑を返す
+   *
+   * 同期済みの句碑がある状態で同期に失敗した場合は、前回同期した句碑を返す。
+   */
+  async all(crawl: CrawlOptions = {}): Promise<Monument[]> {
+    try {
+      await this.sync(crawl);
+    } catch (error) {
+      if (this.lastSyncedAt === null || crawl.signal?.aborted) {
+        throw error;
+      }
+      log.warn("句碑の同期に失敗したため、前回同期した句碑を返します", {
+        error,
+      });
+    }
+    return [...this.records.values()];
+  }
+
+  /**
+   * 条件に一致する句碑を返す。条件は API の検索パラメータと同じ意味で手元で評価する
+   */
+  async query(
+    options?: MonumentQuery,
+    maxResults?: number,
+    crawl: CrawlOptions = {},
+  ): Promise<Monument[]> {
+    const matched = filterMonuments(
+      await this.all(crawl),
+      toQueryParams(options),
+    );
+    return maxResults === undefined ? matched : matched.slice(0, maxResults);
+  }
+
+  /**
+   * 前回の同期から時間が経っていれば同期する。同期の必要がなければ null を返す
+   */
+  async sync(crawl: CrawlOptions = {}): Promise<MonumentSyncResult | null> {
+    const mode = this.nextMode();
+    if (mode === null) {
+      return null;
+    }
+    return this.syncs.run(
+      SYNC_KEY,
+      (signal) => this.run(mode, { ...crawl, signal }),
+      crawl.signal,
+    );
+  }
+
+  private nextMode(): MonumentSyncMode | null {
+    if (this.lastSyncedAt === null) {
+      return "initial";
+    }
+    const now = this.now();
+    if (now - (this.lastReconciledAt ?? 0) >= this.reconcileIntervalMs) {
+      return "reconcile";
+    }
+    if (now - this.lastSyncedAt >= this.syncIntervalMs) {
+      return "incremental";
+    }
+    return null;
+  }
+
+  private async run(
+    mode: MonumentSyncMode,
+    crawl: CrawlOptions,
+  ): Promise<MonumentSyncResult> {
+    const startedAt = this.now();
+    // 最高水位と同じ日時で前回の同期後に反映された句碑を取りこぼさないよう、少し遡って取得する。
+    // 重複して取得した句碑は ID で突き合わせ、updated_at が変わっていなければ更新として数えない
+    const query: MonumentQuery =
+      mode === "incremental" && this.watermark !== null
+        ? { updated_at_gt: shiftTimestamp(this.watermark, this.overlapMs) }
+        : {};
+
+    let fetched: Monument[];
+    try {
+      fetched = await this.crawl(query, crawl);
+    } catch (error) {
+      monumentSyncsTotal.inc({
+        mode,
+        result: crawl.signal?.aborted ? "cancelled" : "error",
+      });
+      throw error;
+    }
+
+    let removed = 0;
+    if (mode !== "incremental") {
+      // 削除された句碑が最高水位を持っていた場合に備え、全件から求め直す
+      removed = this.removeMissing(fetched);
+      this.watermark = null;
+    }
+    const { added, updated } = this.upsert(fetched);
+    if (added + updated + removed > 0) {
+      this.revision += 1;
+    }
+
+    this.lastSyncedAt = startedAt;
+    if (mode !== "incremental") {
+      this.lastReconciledAt = startedAt;
+    }
+    monumentSyncsTotal.inc({ mode, result: "success" });
+
+    const result = { mode, added, updated, removed };
+    log.info("句碑を同期しました", {
+      ...result,
+      total: this.records.size,
+      high_water_mark: this.watermark,
+    });
+    return result;
+  }
+
+  private removeMissing(fetched: readonly Monument[]): number {
+    const ids = new Set(fetched.map((monument) => monument.id));
+    let removed = 0;
+    for (const id of this.records.keys()) {
+      if (!ids.has(id)) {
+        this.records.delete(id);
+        this.previousVersions.delete(id);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  private upsert(fetched: readonly Monument[]): {
+    added: number;
+    updated: number;
+  } {
+    let added = 0;
+    let updated = 0;
+    for (const monument of fetched) {
+      const existing = this.records.get(monument.id);
+      if (!existing) {
+        added += 1;
+      } else if (existing.updated_at !== monument.updated_at) {
+        updated += 1;
+        this.previousVersions.set(monument.id, existing);
+      }
+      this.records.set(monument.id, monument);
+      this.advanceWatermark(monument);
+    }
+    return { added, updated };
+  }
+
+  private advanceWatermark(monument: Monument): void {
+    const updatedAt = parseApiTimestamp(monument.updated_at);
+    if (Number.isNaN(updatedAt)) {
+      return;
+    }
+    if (
+      this.watermark === null ||
+      updatedAt > parseApiTimestamp(this.watermark)
+    ) {
+      this.watermark = monument.updated_at;
+    }
+  }
+}
+
+let monumentStore = new MonumentStore();
+
+/**
+ * Tool が参照する句碑ストアを返す
+ */
+export function getMonumentStore(): MonumentStore {
+  return monumentStore;
+}
+
+/**
+ * 句碑ストアを指定した設定で作り直す。引数を省略すると既定の設定に戻す
+ *
+ * 保持していた句碑は破棄し、次の参照時に全件を取得する。
+ */
+export function configureMonumentStore(
+  options: MonumentStoreOptions = {},
+): void {
+  monumentStore = new MonumentStore(options);
+}
@@ -0,0 +1,312 @@
+import type { Coordinates } from "./types.js";
+import { calculateDistance } from "./utils.js";
+
+export type TravelMode = "walking" | "driving";
+
+// 直線距離から道のり距離を見積もるための係数
+export const ROUTE_DETOUR_FACTOR = 1.3;
+
+// 移動手段ごとの平均速度（メートル/分）
+export const TRAVEL_SPEED_METERS_PER_MINUTE: Readonly<
+  Record<TravelMode, number>
+> = {
+  walking: 80,
+  driving: 500,
+};
+
+const MAX_TWO_OPT_PASSES = 50;
+
+export interface RouteLeg<T> {
+  readonly from: T | null;
+  readonly to: T;
+  readonly distance: number;
+}
+
+export interface PlannedRoute<T> {
+  readonly stops: T[];
+  readonly legs: RouteLeg<T>[];
+  readonly totalDistance: number;
+}
+
+/**
+ * 道のり係数と移動手段の速度から所要時間（分）を見積もる
+ */
+export function estimateTravelMinutes(
+  distanceMeters: number,
+  mode: TravelMode,
+): number {
+  return (
+    (distanceMeters * ROUTE_DETOUR_FACTOR) /
+    TRAVEL_SPEED_METERS_PER_MINUTE[mode]
+  );
+}
+
+function distanceBetween(a: Coordinates, b: Coordinates): number {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+function pathLength(
+  path: readonly Coordinates[],
+  start: Coordinates | null,
+  returnToStart = false,
+): number {
+  let total = 0;
+  let previous = start;
+  for (const point of path) {
+    if (previous) {
+      total += distanceBetween(previous, point);
+    }
+    previous = point;
+  }
+  if (returnToStart && start && previous) {
+    total += distanceBetween(previous, start);
+  }
+  return total;
+}
+
+function nearestNeighbourOrder<T extends Coordinates>(
+  points: readonly T[],
+  start: Coordinates,
+): T[] {
+  const remaining = [...points];
+  const order: T[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    remaining.forEach((point, index) => {
+      const distance = distanceBetween(current, point);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    if (!next) break;
+    order.push(next);
+    current = next;
+  }
+
+  return order;
+}
+
+/**
+ * 2-opt 法で経路の交差を解消する。出発地点がある場合は先頭を固定しない
+ * （出発地点から最初の訪問先までの区間も改善対象に含める）。
+ */
+function improveWithTwoOpt<T extends Coordinates>(
+  order: T[],
+  start: Coordinates | null,
+  returnToStart = false,
+): T[] {
+  let best = order;
+  let bestLength = pathLength(best, start, returnToStart);
+  const firstIndex = start ? 0 : 1;
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = firstIndex; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const candidateLength = pathLength(candidate, start, returnToStart);
+        if (candidateLength + 1e-6 < bestLength) {
+          best = candidate;
+          bestLength = candidateLength;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+function findOutermostPoint<T extends Coordinates>(points: readonly T[]): T {
+  const centroid = {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+
+  let outermost = points[0] as T;
+  let maxDistance = -1;
+  for (const point of points) {
+    const distance = distanceBetween(centroid, point);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      outermost = point;
+    }
+  }
+  return outermost;
+}
+
+/**
+ * 訪問地点の巡回順を最近傍法＋2-opt法で決定する
+ *
+ * 出発地点が無い場合は、全地点の重心から最も遠い地点を起点とする。
+ */
+export function planRoute<T extends Coordinates>(
+  points: readonly T[],
+  start: Coordinates | null = null,
+): PlannedRoute<T> {
+  if (points.length === 0) {
+    return { stops: [], legs: [], totalDistance: 0 };
+  }
+
+  const origin = start ?? findOutermostPoint(points);
+  const initial = nearestNeighbourOrder(points, origin);
+  const stops = improveWithTwoOpt(initial, start);
+
+  const legs: RouteLeg<T>[] = [];
+  let previous: T | null = null;
+  for (const stop of stops) {
+    const from = previous ?? start;
+    legs.push({
+      from: previous,
+      to: stop,
+      distance: from ? distanceBetween(from, stop) : 0,
+    });
+    previous = stop;
+  }
+
+  return {
+    stops,
+    legs,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+  };
+}
+
+export interface ItineraryCandidate extends Coordinates {
+  /** 大きいほど優先して行程に組み込む */
+  readonly priority: number;
+}
+
+export interface ItineraryOptions {
+  readonly budgetMinutes: number;
+  readonly dwellMinutes: number;
+  readonly mode: TravelMode;
+  readonly returnToStart?: boolean;
+}
+
+export interface ItineraryStop<T> {
+  readonly point: T;
+  readonly distance: number;
+  readonly travelMinutes: number;
+  /** 出発時刻からの経過分 */
+  readonly arrivalMinutes: number;
+  readonly departureMinutes: number;
+}
+
+export interface PlannedItinerary<T> {
+  readonly stops: ItineraryStop<T>[];
+  readonly totalDistance: number;
+  readonly totalMinutes: number;
+  readonly returnDistance: number;
+  readonly returnMinutes: number;
+  readonly skipped: T[];
+}
+
+function itineraryMinutes(
+  path: readonly Coordinates[],
+  start: Coordinates,
+  options: ItineraryOptions,
+): number {
+  return (
+    estimateTravelMinutes(
+      pathLength(path, start, options.returnToStart),
+      options.mode,
+    ) +
+    path.length * options.dwellMinutes
+  );
+}
+
+/**
+ * 持ち時間に収まる訪問地点を選び、到着・出発時刻つきの行程を組み立てる
+ *
+ * 優先度の高い地点（同じ優先度なら出発地点に近い地点）から順に、
+ * 移動距離の増加が最小となる位置へ挿入し、持ち時間を超える地点は見送る。
+ * 最後に 2-opt 法で訪問順を整える。
+ */
+export function planItinerary<T extends ItineraryCandidate>(
+  candidates: readonly T[],
+  start: Coordinates,
+  options: ItineraryOptions,
+): PlannedItinerary<T> {
+  const ordered = [...candidates].sort(
+    (a, b) =>
+      b.priority - a.priority ||
+      distanceBetween(start, a) - distanceBetween(start, b),
+  );
+
+  let selected: T[] = [];
+  const skipped: T[] = [];
+
+  for (const candidate of ordered) {
+    let best: T[] | null = null;
+    let bestMinutes = Number.POSITIVE_INFINITY;
+
+    for (let position = 0; position <= selected.length; position++) {
+      const trial = [
+        ...selected.slice(0, position),
+        candidate,
+        ...selected.slice(position),
+      ];
+      const minutes = itineraryMinutes(trial, start, options);
+      if (minutes < bestMinutes) {
+        best = trial;
+        bestMinutes = minutes;
+      }
+    }
+
+    if (best && bestMinutes <= options.budgetMinutes) {
+      selected = best;
+    } else {
+      skipped.push(candidate);
+    }
+  }
+
+  selected = improveWithTwoOpt(selected, start, options.returnToStart);
+
+  const stops: ItineraryStop<T>[] = [];
+  let previous: Coordinates = start;
+  let elapsed = 0;
+  let totalDistance = 0;
+  for (const point of selected) {
+    const distance = distanceBetween(previous, point);
+    const travelMinutes = estimateTravelMinutes(distance, options.mode);
+    const arrivalMinutes = elapsed + travelMinutes;
+    elapsed = arrivalMinutes + options.dwellMinutes;
+    totalDistance += distance;
+    stops.push({
+      point,
+      distance,
+      travelMinutes,
+      arrivalMinutes,
+      departureMinutes: elapsed,
+    });
+    previous = point;
+  }
+
+  const returnDistance =
+    options.returnToStart && stops.length > 0
+      ? distanceBetween(previous, start)
+      : 0;
+  const returnMinutes = estimateTravelMinutes(returnDistance, options.mode);
+
+  return {
+    stops,
+    totalDistance: totalDistance + returnDistance,
+    totalMinutes: elapsed + returnMinutes,
+    returnDistance,
+    returnMinutes,
+    skipped,
+  };
+}
@@ -234,6 +234,66 @@ export const SourceWithMonumentsSchema = SourceSchema.extend({
     .optional(),
 });
 
+// GeoJSON Feature スキーマ（エクスポート用）
+export const GeoJSONFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: GeoJsonPointSchema,
+  properties: z.object({
+    id: IdSchema,
+    inscription: z.string(),
+    canonical_name: z.string(),
+    commentary: z.string().nullable(),
+    media_url: z.string().nullable(),
+    poet_name: z.string(),
+    prefecture: z.string().nullable(),
+    region: z.string().nullable(),
+    address: z.string().nullable(),
+    place_name: z.string().nullable(),
+  }),
+});
+
+// GeoJSON FeatureCollection スキーマ（エクスポート用）
+export const GeoJSONFeatureCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(GeoJSONFeatureSchema),
+});
+
+// GeoJSON LineString スキーマ（経路出力用）
+export const GeoJSONLineStringFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z
+    .object({
+      type: z.literal("LineString"),
+      coordinates: z.array(z.tuple([z.number(), z.number()])).min(2),
+    })
+    .nullable()
+    .describe("訪問地点が1か所だけの場合は null"),
+  properties: z.record(z.string(), z.unknown()),
+});
+
+// GeoJSON Polygon / MultiPolygon スキーマ（範囲検索の入力用）
+const GeoJSONPositionSchema = z.tuple([
+  z.number().min(VALIDATION_LIMITS.LON_MIN).max(VALIDATION_LIMITS.LON_MAX),
+  z.number().min(VALIDATION_LIMITS.LAT_MIN).max(VALIDATION_LIMITS.LAT_MAX),
+]); // [longitude, latitude]
+
+const GeoJSONLinearRingSchema = z.array(GeoJSONPositionSchema).min(4);
+
+export const GeoJSONPolygonSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(GeoJSONLinearRingSchema).min(1),
+});
+
+export const GeoJSONMultiPolygonSchema = z.object({
+  type: z.literal("MultiPolygon"),
+  coordinates: z.array(z.array(GeoJSONLinearRingSchema).min(1)).min(1),
+});
+
+export const GeoJSONAreaGeometrySchema = z.discriminatedUnion("type", [
+  GeoJSONPolygonSchema,
+  GeoJSONMultiPolygonSchema,
+]);
+
 // 検索オプションスキーマ
 export const SearchOptionsSchema = z.object({
   limit: z
@@ -290,6 +350,55 @@ export const RegionEnum = z.enum([
   "九州",
   "沖縄",
 ]);
+export const PrefectureEnum = z.enum([
+  "北海道",
+  "青森県",
+  "岩手県",
+  "宮城県",
+  "秋田県",
+  "山形県",
+  "福島県",
+  "茨城県",
+  "栃木県",
+  "群馬県",
+  "埼玉県",
+  "千葉県",
+  "東京都",
+  "神奈川県",
+  "新潟県",
+  "富山県",
+  "石川県",
+  "福井県",
+  "山梨県",
+  "長野県",
+  "岐阜県",
+  "静岡県",
+  "愛知県",
+  "三重県",
+  "滋賀県",
+  "京都府",
+  "大阪府",
+  "兵庫県",
+  "奈良県",
+  "和歌山県",
+  "鳥取県",
+  "島根県",
+  "岡山県",
+  "広島県",
+  "山口県",
+  "徳島県",
+  "香川県",
+  "愛媛県",
+  "高知県",
+  "福岡県",
+  "佐賀県",
+  "長崎県",
+  "熊本県",
+  "大分県",
+  "宮崎県",
+  "鹿児島県",
+  "沖縄県",
+]);
 
 // Legacy compatibility
 export const HaikuMonumentSchema = MonumentSchema;
@@ -300,6 +409,7 @@ export const HaikuMonumentResponseSchema = z.object({
 export type SearchOptions = z.infer<typeof SearchOptionsSchema>;
 export type Season = z.infer<typeof SeasonEnum>;
 export type Region = z.infer<typeof RegionEnum>;
+export type Prefecture = z.infer<typeof PrefectureEnum>;
 export type Poet = z.infer<typeof PoetSchema>;
 export type Source = z.infer<typeof SourceSchema>;
 export type SourceWithMonuments = z.infer<typeof SourceWithMonumentsSchema>;
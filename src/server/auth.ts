@@ -0,0 +1,227 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import fs from "node:fs/promises";
+import type { IncomingMessage } from "node:http";
+import { z } from "zod";
+import { logger } from "../logger.js";
+
+const log = logger.child({ module: "auth" });
+
+/**
+ * - `tools`: Tool の一覧取得と呼び出し（`tools` で呼び出せる Tool を限定できる）
+ * - `resources`: Resource の一覧取得と読み込み
+ * - `prompts`: Prompt の一覧取得と取得
+ * - `metrics`: `/metrics` の参照
+ * - `*`: すべて
+ */
+export const AUTH_SCOPES = [
+  "tools",
+  "resources",
+  "prompts",
+  "metrics",
+  "*",
+] as const;
+
+export type AuthScope = (typeof AUTH_SCOPES)[number];
+
+const ApiKeyDefinitionSchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16),
+  scopes: z.array(z.enum(AUTH_SCOPES)).min(1).default(["*"]),
+  tools: z.array(z.string()).optional(),
+});
+
+const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeyDefinitionSchema),
+});
+
+export type ApiKeyDefinition = z.input<typeof ApiKeyDefinitionSchema>;
+
+/**
+ * 認証済みの呼び出し元
+ */
+export interface AuthPrincipal {
+  readonly name: string;
+  readonly scopes: readonly AuthScope[];
+  /** 未指定の場合は `tools` スコープのすべての Tool を呼び出せる */
+  readonly tools?: readonly string[];
+}
+
+interface RegisteredKey {
+  readonly digest: Buffer;
+  readonly principal: AuthPrincipal;
+}
+
+export interface AuthorizationFailure {
+  readonly id: string | number | null;
+  readonly message: string;
+}
+
+function digestOf(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+function requiredScopeOf(
+  method: string,
+  params: Record<string, unknown>,
+): AuthScope | null {
+  if (method.startsWith("tools/")) return "tools";
+  if (method.startsWith("resources/")) return "resources";
+  if (method.startsWith("prompts/")) return "prompts";
+  if (method === "completion/complete") {
+    const { ref } = params as { ref?: { type?: unknown } };
+    return ref?.type === "ref/resource" ? "resources" : "prompts";
+  }
+  return null;
+}
+
+/**
+ * 呼び出し元に `scope` の操作が許可されていれば true
+ */
+export function hasScope(principal: AuthPrincipal, scope: AuthScope): boolean {
+  return principal.scopes.includes("*") || principal.scopes.includes(scope);
+}
+
+/**
+ * Bearer トークン（`Authorization: Bearer <key>`）または `X-API-Key` ヘッダーで呼び出し元を認証し、
+ * JSON-RPC メッセージごとにスコープを検査する
+ */
+export class ApiKeyAuthenticator {
+  private readonly keys: RegisteredKey[];
+
+  constructor(definitions: readonly ApiKeyDefinition[]) {
+    this.keys = definitions.map((definition) => {
+      const { name, key, scopes, tools } =
+        ApiKeyDefinitionSchema.parse(definition);
+      return {
+        digest: digestOf(key),
+        principal: { name, scopes, ...(tools ? { tools } : {}) },
+      };
+    });
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * 認証に成功した場合は呼び出し元を、資格情報が無いか不正な場合は null を返す
+   */
+  authenticate(req: IncomingMessage): AuthPrincipal | null {
+    const token = extractToken(req);
+    if (!token) {
+      return null;
+    }
+
+    // 一致したキーで処理を打ち切らず、すべてのキーと定数時間で比較する
+    const digest = digestOf(token);
+    let matched: AuthPrincipal | null = null;
+    for (const key of this.keys) {
+      if (timingSafeEqual(key.digest, digest)) {
+        matched = key.principal;
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * リクエストボディ（単一またはバッチの JSON-RPC メッセージ）に権限外のメソッドが含まれていれば、その内容を返す
+   */
+  authorize(
+    principal: AuthPrincipal,
+    body: unknown,
+  ): AuthorizationFailure | null {
+    const messages = Array.isArray(body) ? body : [body];
+
+    for (const message of messages) {
+      if (typeof message !== "object" || message === null) continue;
+      const { method, params = {} } = message as {
+        method?: unknown;
+        params?: Record<string, unknown>;
+      };
+      if (typeof method !== "string") continue;
+
+      const id = (message as { id?: string | number }).id ?? null;
+      const scope = requiredScopeOf(method, params);
+      if (!scope) continue;
+
+      if (!hasScope(principal, scope)) {
+        return {
+          id,
+          message: `Forbidden: API key "${principal.name}" lacks the "${scope}" scope required for ${method}`,
+        };
+      }
+
+      const { name: toolName } = params;
+      if (
+        method === "tools/call" &&
+        principal.tools &&
+        !(typeof toolName === "string" && principal.tools.includes(toolName))
+      ) {
+        return {
+          id,
+          message: `Forbidden: API key "${principal.name}" is not allowed to call tool "${String(toolName)}"`,
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+function extractToken(req: IncomingMessage): string | null {
+  const { authorization } = req.headers;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/iu.exec(authorization);
+    return match?.[1]?.trim() || null;
+  }
+
+  const apiKey = req.headers["x-api-key"];
+  const value = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  return value?.trim() || null;
+}
+
+/**
+ * API キーの定義ファイル（`{ "keys": [{ "name", "key", "scopes", "tools" }] }`）を読み込む
+ */
+export async function loadApiKeysFile(
+  filePath: string,
+): Promise<ApiKeyDefinition[]> {
+  const content = JSON.parse(await fs.readFile(filePath, "utf8"));
+  const result = ApiKeysFileSchema.safeParse(content);
+  if (!result.success) {
+    throw new Error(
+      `Invalid API keys file ${filePath}: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")}`,
+    );
+  }
+  return result.data.keys;
+}
+
+/**
+ * `MCP_API_KEYS`（カンマ区切り、すべての権限）と `MCP_API_KEYS_FILE` から認証設定を作成する
+ *
+ * どちらも未設定の場合は認証を行わないため null を返す。
+ */
+export async function createAuthenticatorFromEnv(): Promise<ApiKeyAuthenticator | null> {
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  const inlineKeys = process.env["MCP_API_KEYS"];
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  const keysFile = process.env["MCP_API_KEYS_FILE"];
+
+  const definitions: ApiKeyDefinition[] = (inlineKeys ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key, index) => ({ name: `env-${index + 1}`, key }));
+
+  if (keysFile) {
+    definitions.push(...(await loadApiKeysFile(keysFile)));
+  }
+
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  const authenticator = new ApiKeyAuthenticator(definitions);
+  log.info(`API キー認証を有効にしました（${authenticator.size}件）`);
+  return authenticator;
+}
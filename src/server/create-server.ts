@@ -1,4 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ClientLogForwarder } from "./logging.js";
+import { registerAllPrompts } from "./prompts/index.js";
+import { registerAllResources } from "./resources/index.js";
 import { registerAllTools } from "./tools/index.js";
 
 export interface CreateServerOptions {
@@ -14,7 +17,11 @@ export function createMcpServer(options: CreateServerOptions = {}): McpServer {
     version,
   });
 
+  // Tool のログをクライアントに転送するため、Tool より先に作成する
+  new ClientLogForwarder(server);
   registerAllTools(server);
+  registerAllResources(server);
+  registerAllPrompts(server);
 
   return server;
 }
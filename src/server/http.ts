@@ -0,0 +1,464 @@
+import { randomUUID } from "node:crypto";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import { URL } from "node:url";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getCacheStats, getValidationMetrics } from "../api.js";
+import { CONFIG } from "../config.js";
+import { logger, runWithLogContext } from "../logger.js";
+import {
+  type CollectedMetric,
+  endpointLabel,
+  renderMetrics,
+} from "../metrics.js";
+import { getMonumentStore } from "../monument-store.js";
+import {
+  type ApiKeyAuthenticator,
+  type AuthPrincipal,
+  createAuthenticatorFromEnv,
+  hasScope,
+} from "./auth.js";
+import {
+  type RateLimiter,
+  createRateLimiterFromEnv,
+  resolveClientKey,
+} from "./rate-limit.js";
+import { ReadinessProbe } from "./readiness.js";
+import { McpSessionManager } from "./sessions.js";
+
+const log = logger.child({ module: "http" });
+
+// biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+const DEFAULT_PORT = Number.parseInt(process.env["PORT"] ?? "8786", 10);
+// biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+const DEFAULT_HTTP_PATH = process.env["MCP_HTTP_PATH"] ?? "/mcp";
+const DEFAULT_MAX_SESSIONS = Number.parseInt(
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  process.env["MCP_MAX_SESSIONS"] ?? String(CONFIG.HTTP_MAX_SESSIONS),
+  10,
+);
+const DEFAULT_SESSION_IDLE_TIMEOUT = Number.parseInt(
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  process.env["MCP_SESSION_IDLE_TIMEOUT_MS"] ??
+    String(CONFIG.HTTP_SESSION_IDLE_TIMEOUT),
+  10,
+);
+// biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+const DEFAULT_TRUST_PROXY = process.env["MCP_TRUST_PROXY"] === "true";
+
+export interface HttpServerOptions {
+  readonly port?: number;
+  readonly path?: string;
+  readonly maxSessions?: number;
+  readonly sessionIdleTimeoutMs?: number;
+  /** 未指定の場合は環境変数から作成する。null で認証を無効にする */
+  readonly auth?: ApiKeyAuthenticator | null;
+  /** 未指定の場合は環境変数から作成する。null でレート制限を無効にする */
+  readonly rateLimiter?: RateLimiter | null;
+  /** レート制限の接続元 IP に `X-Forwarded-For` を使う */
+  readonly trustProxy?: boolean;
+  readonly readiness?: ReadinessProbe;
+}
+
+interface McpRequestContext {
+  readonly sessions: McpSessionManager;
+  readonly auth: ApiKeyAuthenticator | null;
+  readonly rateLimiter: RateLimiter | null;
+  readonly trustProxy: boolean;
+}
+
+export interface HttpServerHandle {
+  readonly server: Server;
+  readonly sessions: McpSessionManager;
+  close(): Promise<void>;
+}
+
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly rpcCode: number,
+  ) {
+    super(message);
+    this.name = "RequestBodyError";
+  }
+}
+
+function buildRequestUrl(req: IncomingMessage, port: number): URL {
+  const origin = req.headers.host ?? `localhost:${port}`;
+  const base = origin.startsWith("http") ? origin : `http://${origin}`;
+  return new URL(req.url ?? "/", base);
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string,
+  id: string | number | null = null,
+): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id }));
+}
+
+function sendUnauthorized(res: ServerResponse): void {
+  res.setHeader(
+    "WWW-Authenticate",
+    'Bearer realm="kuhi-api-mcp-server", error="invalid_token"',
+  );
+  sendJsonRpcError(
+    res,
+    401,
+    -32001,
+    "Unauthorized: a valid API key is required (Authorization: Bearer <key> or X-API-Key)",
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > CONFIG.HTTP_MAX_BODY_BYTES) {
+      throw new RequestBodyError("Request body too large", 413, -32600);
+    }
+    chunks.push(buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RequestBodyError("Parse error: Invalid JSON", 400, -32700);
+  }
+}
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/u;
+
+/**
+ * 呼び出し元が `X-Request-Id` を指定していればそれを、なければ新しい ID をログの相関 ID に使う
+ */
+function resolveRequestId(req: IncomingMessage): string {
+  const header = req.headers["x-request-id"];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+}
+
+function getSessionIdHeader(req: IncomingMessage): string | undefined {
+  const header = req.headers["mcp-session-id"];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+function collectServerMetrics(sessions: McpSessionManager): CollectedMetric[] {
+  const cache = getCacheStats();
+  const validation = getValidationMetrics();
+
+  return [
+    {
+      name: "kuhi_cache_entries",
+      help: "Number of entries in the API cache",
+      type: "gauge",
+      samples: [[{}, cache.entries]],
+    },
+    {
+      name: "kuhi_cache_size_bytes",
+      help: "Total size of the API cache in bytes",
+      type: "gauge",
+      samples: [[{}, cache.bytes]],
+    },
+    {
+      name: "kuhi_cache_evictions_total",
+      help: "Number of API cache entries evicted by the size limit",
+      type: "counter",
+      samples: [[{}, cache.evictions]],
+    },
+    {
+      name: "kuhi_validated_responses_total",
+      help: "Number of upstream responses checked against the schema",
+      type: "counter",
+      samples: [[{}, validation.totalRequests]],
+    },
+    {
+      name: "kuhi_validation_failures_total",
+      help: "Number of upstream responses that failed schema validation by endpoint",
+      type: "counter",
+      samples: Object.entries(validation.failuresByEndpoint).map(
+        ([endpoint, count]) => [{ endpoint: endpointLabel(endpoint) }, count],
+      ),
+    },
+    {
+      name: "kuhi_monument_store_records",
+      help: "Number of monuments held in the local monument store",
+      type: "gauge",
+      samples: [[{}, getMonumentStore().size]],
+    },
+    {
+      name: "kuhi_http_sessions",
+      help: "Number of active MCP sessions",
+      type: "gauge",
+      samples: [[{}, sessions.size]],
+    },
+    {
+      name: "kuhi_process_uptime_seconds",
+      help: "Process uptime in seconds",
+      type: "gauge",
+      samples: [[{}, process.uptime()]],
+    },
+  ];
+}
+
+async function handleMcpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  { sessions, auth, rateLimiter, trustProxy }: McpRequestContext,
+): Promise<void> {
+  let principal: AuthPrincipal | null = null;
+  if (auth) {
+    principal = auth.authenticate(req);
+    if (!principal) {
+      sendUnauthorized(res);
+      return;
+    }
+  }
+
+  const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+  if (auth && principal && body !== undefined) {
+    const failure = auth.authorize(principal, body);
+    if (failure) {
+      sendJsonRpcError(res, 403, -32003, failure.message, failure.id);
+      return;
+    }
+  }
+
+  if (rateLimiter && body !== undefined) {
+    const clientKey = resolveClientKey(req, {
+      apiKeyName: principal?.name ?? null,
+      trustProxy,
+    });
+    const decision = rateLimiter.consume(clientKey, body);
+    if (!decision.allowed) {
+      res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+      sendJsonRpcError(res, 429, -32029, decision.message, decision.id);
+      return;
+    }
+  }
+
+  const sessionId = getSessionIdHeader(req);
+  if (sessionId) {
+    const transport = sessions.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    if (sessions.ownerOf(sessionId) !== (principal?.name ?? null)) {
+      sendJsonRpcError(
+        res,
+        403,
+        -32003,
+        "Forbidden: session belongs to another API key",
+      );
+      return;
+    }
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== "POST" || !isInitializeRequest(body)) {
+    sendJsonRpcError(
+      res,
+      400,
+      -32000,
+      "Bad Request: No valid session ID provided",
+    );
+    return;
+  }
+
+  if (!sessions.canCreateSession()) {
+    res.setHeader("Retry-After", "60");
+    sendJsonRpcError(res, 503, -32000, "Too many active sessions");
+    return;
+  }
+
+  await sessions.handleInitializeRequest(
+    req,
+    res,
+    body,
+    principal?.name ?? null,
+  );
+}
+
+/**
+ * Streamable HTTP トランスポートで MCP サーバーを起動する
+ *
+ * クライアントごとに `MCP-Session-Id` で区別されたセッションを持ち、
+ * セッションごとに独立した MCP サーバーインスタンスを割り当てる。
+ */
+export async function startHttpServer(
+  options: HttpServerOptions = {},
+): Promise<HttpServerHandle> {
+  const {
+    port = DEFAULT_PORT,
+    path: httpPath = DEFAULT_HTTP_PATH,
+    maxSessions = DEFAULT_MAX_SESSIONS,
+    sessionIdleTimeoutMs = DEFAULT_SESSION_IDLE_TIMEOUT,
+    trustProxy = DEFAULT_TRUST_PROXY,
+    readiness = new ReadinessProbe(),
+  } = options;
+  const auth =
+    options.auth === undefined
+      ? await createAuthenticatorFromEnv()
+      : options.auth;
+  const rateLimiter =
+    options.rateLimiter === undefined
+      ? createRateLimiterFromEnv()
+      : options.rateLimiter;
+
+  const sessions = new McpSessionManager({
+    maxSessions,
+    idleTimeoutMs: sessionIdleTimeoutMs,
+  });
+  sessions.startIdleSweep();
+
+  const httpServer = createServer(async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      [
+        "Content-Type",
+        "Authorization",
+        "MCP-Session-Id",
+        "MCP-Protocol-Version",
+        "X-API-Key",
+        "X-Request-Id",
+      ].join(", "),
+    );
+    res.setHeader(
+      "Access-Control-Expose-Headers",
+      "MCP-Session-Id, WWW-Authenticate, Retry-After, X-Request-Id",
+    );
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const requestUrl = buildRequestUrl(req, port);
+
+    if (requestUrl.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          status: "ok",
+          version: "2.0.0",
+          transport: "streamable-http",
+          uptime: process.uptime(),
+          sessions: sessions.size,
+        }),
+      );
+      return;
+    }
+
+    if (requestUrl.pathname === "/ready" && req.method === "GET") {
+      const report = await readiness.check();
+      res.writeHead(report.status === "ready" ? 200 : 503, {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      });
+      res.end(JSON.stringify(report));
+      return;
+    }
+
+    if (requestUrl.pathname === "/metrics" && req.method === "GET") {
+      // Tool ごとの呼び出し状況やセッション数を含むため、認証が有効なら metrics スコープを要求する
+      if (auth) {
+        const principal = auth.authenticate(req);
+        if (!principal) {
+          sendUnauthorized(res);
+          return;
+        }
+        if (!hasScope(principal, "metrics")) {
+          sendJsonRpcError(
+            res,
+            403,
+            -32003,
+            `Forbidden: API key "${principal.name}" lacks the "metrics" scope required for /metrics`,
+          );
+          return;
+        }
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      });
+      res.end(renderMetrics(collectServerMetrics(sessions)));
+      return;
+    }
+
+    if (requestUrl.pathname === httpPath) {
+      const requestId = resolveRequestId(req);
+      const sessionId = getSessionIdHeader(req);
+      res.setHeader("X-Request-Id", requestId);
+      try {
+        await runWithLogContext(
+          {
+            request_id: requestId,
+            ...(sessionId ? { session_id: sessionId } : {}),
+          },
+          () =>
+            handleMcpRequest(req, res, {
+              sessions,
+              auth,
+              rateLimiter,
+              trustProxy,
+            }),
+        );
+      } catch (error) {
+        if (error instanceof RequestBodyError) {
+          sendJsonRpcError(res, error.statusCode, error.rpcCode, error.message);
+          return;
+        }
+        log.error("Streamable HTTP request failed", { error });
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Failed to process MCP request" }));
+        }
+      }
+      return;
+    }
+
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not Found" }));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  log.info(`MCP Server listening on http://localhost:${port}${httpPath}`);
+
+  const onSigterm = () => {
+    close().finally(() => {
+      process.exit(0);
+    });
+  };
+  const close = async (): Promise<void> => {
+    process.off("SIGTERM", onSigterm);
+    await sessions.closeAll();
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  };
+
+  process.once("SIGTERM", onSigterm);
+
+  return { server: httpServer, sessions, close };
+}
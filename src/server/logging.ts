@@ -0,0 +1,100 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type LoggingLevel,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type LogLevel, type LogSink, toLogData } from "../logger.js";
+
+const MCP_LOGGING_LEVELS: readonly LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+const MCP_LEVEL_BY_LOG_LEVEL: Readonly<Record<LogLevel, LoggingLevel>> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+/** `logging/setLevel` を受け取るまでは警告以上のみ通知する */
+export const DEFAULT_CLIENT_LOG_LEVEL: LoggingLevel = "warning";
+
+const DEFAULT_LOGGER_NAME = "kuhi-api-mcp-server";
+
+type SendNotification = (notification: {
+  method: "notifications/message";
+  params: { level: LoggingLevel; logger?: string; data: unknown };
+}) => Promise<void>;
+
+/**
+ * サーバーのログを MCP の `notifications/message` としてクライアントに転送する
+ *
+ * MCP サーバーのインスタンスはクライアント（セッション）ごとに作成されるため、
+ * `logging/setLevel` で指定されたレベルはインスタンス単位で保持する。
+ */
+export class ClientLogForwarder {
+  private static readonly forwarders = new WeakMap<
+    McpServer,
+    ClientLogForwarder
+  >();
+
+  /**
+   * サーバーに作成した転送先を返す。作成していなければ undefined
+   */
+  static of(server: McpServer): ClientLogForwarder | undefined {
+    return ClientLogForwarder.forwarders.get(server);
+  }
+
+  private level: LoggingLevel = DEFAULT_CLIENT_LOG_LEVEL;
+
+  constructor(server: McpServer) {
+    ClientLogForwarder.forwarders.set(server, this);
+    server.server.registerCapabilities({ logging: {} });
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.level = request.params.level;
+      return {};
+    });
+  }
+
+  get currentLevel(): LoggingLevel {
+    return this.level;
+  }
+
+  /**
+   * リクエストの処理中に出力されたログを、そのリクエストに関連付けてクライアントに送る出力先を作成する
+   */
+  sinkFor(sendNotification: SendNotification): LogSink {
+    return ({ level, message, context, fields, args }) => {
+      const mcpLevel = MCP_LEVEL_BY_LOG_LEVEL[level];
+      if (
+        MCP_LOGGING_LEVELS.indexOf(mcpLevel) <
+        MCP_LOGGING_LEVELS.indexOf(this.level)
+      ) {
+        return;
+      }
+
+      const { module, ...rest } = { ...context, ...fields };
+      sendNotification({
+        method: "notifications/message",
+        params: {
+          level: mcpLevel,
+          logger: typeof module === "string" ? module : DEFAULT_LOGGER_NAME,
+          // スタックトレースはサーバー内部の情報のためクライアントには送らない
+          data: toLogData(
+            { ...rest, message, ...(args.length > 0 ? { args } : {}) },
+            { includeStack: false },
+          ),
+        },
+      }).catch(() => {
+        // 切断済みのクライアントへの通知失敗は無視する
+      });
+    };
+  }
+}
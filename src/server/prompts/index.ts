@@ -0,0 +1,6 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTourismPrompts } from "./tourism.js";
+
+export function registerAllPrompts(server: McpServer): void {
+  registerTourismPrompts(server);
+}
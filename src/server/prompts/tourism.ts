@@ -0,0 +1,127 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { fetchPoets } from "../../api.js";
+import { PrefectureEnum, RegionEnum, SeasonEnum } from "../../schemas.js";
+
+const MAX_COMPLETIONS = 20;
+
+function completeFromList(
+  candidates: readonly string[],
+  value: string,
+): string[] {
+  const normalized = value.trim();
+  return candidates
+    .filter((candidate) => candidate.includes(normalized))
+    .slice(0, MAX_COMPLETIONS);
+}
+
+async function completePoetName(value: string): Promise<string[]> {
+  const poets = await fetchPoets().catch(() => []);
+  return completeFromList(
+    poets.map((poet) => poet.name),
+    value,
+  );
+}
+
+function userMessage(text: string): GetPromptResult {
+  return {
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text },
+      },
+    ],
+  };
+}
+
+export function registerTourismPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "plan_ginko_walk",
+    {
+      title: "吟行プランの作成",
+      description: "指定した都道府県で句碑を巡る吟行（俳句の散策）プランを作成",
+      argsSchema: {
+        prefecture: completable(
+          z.string().describe("都道府県名（例: 三重県）"),
+          (value) => completeFromList(PrefectureEnum.options, value),
+        ),
+        region: completable(
+          z.string().optional().describe("地域名（例: 東海）"),
+          (value) => completeFromList(RegionEnum.options, value ?? ""),
+        ),
+        season: completable(
+          z.string().optional().describe("季節（春/夏/秋/冬）"),
+          (value) => completeFromList(SeasonEnum.options, value ?? ""),
+        ),
+        poet_name: completable(
+          z.string().optional().describe("俳人名（例: 松尾芭蕉）"),
+          (value) => completePoetName(value ?? ""),
+        ),
+      },
+    },
+    ({ prefecture, region, season, poet_name }) => {
+      const toolArguments = {
+        prefecture,
+        ...(region ? { region } : {}),
+        ...(season ? { season } : {}),
+        ...(poet_name ? { poet_name } : {}),
+        max_results: 10,
+      };
+
+      return userMessage(`${prefecture}で句碑を巡る吟行プランを立ててください。
+
+1. explore_monuments_for_tourism を次の引数で呼び出し、候補となる句碑を集めてください。
+${JSON.stringify(toolArguments, null, 2)}
+2. 気になる句碑は learn_about_monument で背景を確認してください。
+3. 所在地の近い句碑をまとめ、1日で無理なく歩ける順路と、各句碑で味わいたい句・季語を提案してください。${season ? `\n4. ${season}の情景が感じられる句碑を優先してください。` : ""}`);
+    },
+  );
+
+  server.registerPrompt(
+    "explain_monument",
+    {
+      title: "句碑の解説",
+      description:
+        "句碑IDを指定して、句の意味・俳人・建立の背景をわかりやすく解説",
+      argsSchema: {
+        monument_id: z.string().describe("句碑ID（数値）"),
+      },
+    },
+    ({ monument_id }) => {
+      return userMessage(`句碑ID ${monument_id} について解説してください。
+
+1. learn_about_monument を monument_id=${monument_id} で呼び出してください。
+2. 刻まれた句の読みと意味、季語と季節を説明してください。
+3. 俳人の人物像と、句が詠まれた背景を紹介してください。
+4. 設置場所や建立の経緯から、訪れる際の見どころをまとめてください。`);
+    },
+  );
+
+  server.registerPrompt(
+    "compare_poets",
+    {
+      title: "俳人の比較",
+      description: "2人の俳人の作風・季語・活動地域を比較",
+      argsSchema: {
+        poet_a: completable(
+          z.string().describe("1人目の俳人名（例: 松尾芭蕉）"),
+          (value) => completePoetName(value),
+        ),
+        poet_b: completable(
+          z.string().describe("2人目の俳人名（例: 与謝蕪村）"),
+          (value) => completePoetName(value),
+        ),
+      },
+    },
+    ({ poet_a, poet_b }) => {
+      return userMessage(`${poet_a}と${poet_b}の作風を比較してください。
+
+1. compare_poets_styles を次の引数で呼び出してください。
+${JSON.stringify({ poet_names: [poet_a, poet_b] }, null, 2)}
+2. 季節の分布や代表的な季語の違いから、それぞれの作風の特徴を説明してください。
+3. 句碑の多い地域を踏まえ、2人の句碑を巡るならどこを訪れるとよいか提案してください。`);
+    },
+  );
+}
@@ -0,0 +1,327 @@
+import type { IncomingMessage } from "node:http";
+import { CONFIG } from "../config.js";
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+const PRUNE_INTERVAL_MS = 60000;
+
+/**
+ * 1分あたりのリクエスト数。バーストとして同じ件数まで連続で受け付ける
+ */
+export interface RateLimitRule {
+  readonly perMinute: number;
+}
+
+export interface RateLimiterOptions {
+  /** クライアントごとのリクエスト数の上限（null で無制限） */
+  readonly global: RateLimitRule | null;
+  /** Tool ごとの呼び出し数の上限。全体の上限に加えて適用する */
+  readonly tools?: Readonly<Record<string, RateLimitRule>>;
+  /** クライアントごとの1日（UTC）あたりのリクエスト数の上限（null で無制限） */
+  readonly dailyQuota: number | null;
+  readonly now?: () => number;
+}
+
+export type RateLimitDecision =
+  | { readonly allowed: true }
+  | {
+      readonly allowed: false;
+      readonly id: string | number | null;
+      readonly message: string;
+      readonly retryAfterSeconds: number;
+    };
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaCounter {
+  day: number;
+  used: number;
+}
+
+interface BucketDemand {
+  readonly rule: RateLimitRule;
+  readonly label: string;
+  cost: number;
+}
+
+function refillRateOf(rule: RateLimitRule): number {
+  return rule.perMinute / MS_PER_MINUTE;
+}
+
+/**
+ * クライアントを識別するキーを求める
+ *
+ * API キーで認証されていればその名前、なければ接続元 IP アドレスを使う。セッション ID は
+ * クライアントが自由に作り直せるため、上限を回避できないよう識別には使わない。
+ */
+export function resolveClientKey(
+  req: IncomingMessage,
+  options: {
+    readonly apiKeyName?: string | null;
+    readonly trustProxy?: boolean;
+  } = {},
+): string {
+  if (options.apiKeyName) {
+    return `key:${options.apiKeyName}`;
+  }
+
+  if (options.trustProxy) {
+    const forwarded = req.headers["x-forwarded-for"];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+      ?.split(",")[0]
+      ?.trim();
+    if (first) {
+      return `ip:${first}`;
+    }
+  }
+  return `ip:${req.socket.remoteAddress ?? "unknown"}`;
+}
+
+/**
+ * クライアントごとのトークンバケットによるレート制限と、1日あたりのリクエスト数の上限を管理する
+ *
+ * リクエストボディ（単一またはバッチの JSON-RPC メッセージ）に含まれるリクエストを1件ずつ数え、
+ * いずれかの上限を超える場合はバッチ全体を拒否してトークンを消費しない。
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly quotas = new Map<string, QuotaCounter>();
+  private readonly now: () => number;
+  private lastPrunedAt: number;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now;
+    this.lastPrunedAt = this.now();
+  }
+
+  /**
+   * 当日（UTC）に消費したリクエスト数
+   */
+  usedQuota(clientKey: string): number {
+    const counter = this.quotas.get(clientKey);
+    return counter && counter.day === this.currentDay() ? counter.used : 0;
+  }
+
+  consume(clientKey: string, body: unknown): RateLimitDecision {
+    const now = this.now();
+    this.pruneIdleBuckets(now);
+
+    const messages = (Array.isArray(body) ? body : [body]).filter(
+      (
+        message,
+      ): message is { id?: unknown; method: string; params?: unknown } =>
+        typeof message === "object" &&
+        message !== null &&
+        typeof (message as { method?: unknown }).method === "string" &&
+        "id" in message,
+    );
+    if (messages.length === 0) {
+      return { allowed: true };
+    }
+
+    const firstId = messages[0]?.id;
+    const id =
+      typeof firstId === "string" || typeof firstId === "number"
+        ? firstId
+        : null;
+
+    const day = this.currentDay(now);
+    const { dailyQuota } = this.options;
+    if (dailyQuota !== null) {
+      const used = this.usedQuota(clientKey);
+      if (used + messages.length > dailyQuota) {
+        return {
+          allowed: false,
+          id,
+          message: `Too Many Requests: daily quota of ${dailyQuota} requests exceeded`,
+          retryAfterSeconds: Math.ceil(((day + 1) * MS_PER_DAY - now) / 1000),
+        };
+      }
+    }
+
+    const demands = this.collectDemands(clientKey, messages);
+    let retryAfterMs = 0;
+    let exceeded: string | null = null;
+    for (const [bucketKey, demand] of demands) {
+      const bucket = this.refill(bucketKey, demand.rule, now);
+      if (bucket.tokens < demand.cost) {
+        const wait = (demand.cost - bucket.tokens) / refillRateOf(demand.rule);
+        if (wait >= retryAfterMs) {
+          retryAfterMs = wait;
+          exceeded = demand.label;
+        }
+      }
+    }
+
+    if (exceeded !== null) {
+      return {
+        allowed: false,
+        id,
+        message: `Too Many Requests: rate limit exceeded for ${exceeded}`,
+        retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+      };
+    }
+
+    for (const [bucketKey, demand] of demands) {
+      const bucket = this.buckets.get(bucketKey);
+      if (bucket) {
+        bucket.tokens -= demand.cost;
+      }
+    }
+    if (dailyQuota !== null) {
+      this.quotas.set(clientKey, {
+        day,
+        used: this.usedQuota(clientKey) + messages.length,
+      });
+    }
+    return { allowed: true };
+  }
+
+  private collectDemands(
+    clientKey: string,
+    messages: readonly { method: string; params?: unknown }[],
+  ): Map<string, BucketDemand> {
+    const demands = new Map<string, BucketDemand>();
+    const add = (bucketKey: string, rule: RateLimitRule, label: string) => {
+      const demand = demands.get(bucketKey);
+      if (demand) {
+        demand.cost++;
+      } else {
+        demands.set(bucketKey, { rule, label, cost: 1 });
+      }
+    };
+
+    for (const { method, params } of messages) {
+      if (this.options.global) {
+        add(clientKey, this.options.global, "requests");
+      }
+
+      if (method !== "tools/call") continue;
+      const { name } = (params ?? {}) as { name?: unknown };
+      const rule =
+        typeof name === "string" ? this.options.tools?.[name] : undefined;
+      if (rule) {
+        add(`${clientKey}\u0000${name}`, rule, `tool "${name}"`);
+      }
+    }
+    return demands;
+  }
+
+  private refill(
+    bucketKey: string,
+    rule: RateLimitRule,
+    now: number,
+  ): TokenBucket {
+    const bucket = this.buckets.get(bucketKey);
+    if (!bucket) {
+      const created = { tokens: rule.perMinute, updatedAt: now };
+      this.buckets.set(bucketKey, created);
+      return created;
+    }
+
+    bucket.tokens = Math.min(
+      rule.perMinute,
+      bucket.tokens + (now - bucket.updatedAt) * refillRateOf(rule),
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * 満タンまで回復したバケットと前日以前のカウンターを削除し、メモリ使用量を抑える
+   */
+  private pruneIdleBuckets(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    // 最も厳しい上限でも満タンに戻るまでの時間（1分）が経過したバケットは削除してよい
+    for (const [bucketKey, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= MS_PER_MINUTE) {
+        this.buckets.delete(bucketKey);
+      }
+    }
+    const day = this.currentDay(now);
+    for (const [clientKey, counter] of this.quotas) {
+      if (counter.day !== day) {
+        this.quotas.delete(clientKey);
+      }
+    }
+  }
+
+  private currentDay(now = this.now()): number {
+    return Math.floor(now / MS_PER_DAY);
+  }
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === "") {
+    return fallback;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid rate limit value: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * `name=件数` のカンマ区切りを Tool ごとの上限にする
+ */
+export function parseToolRateLimits(
+  value: string,
+): Record<string, RateLimitRule> {
+  const rules: Record<string, RateLimitRule> = {};
+  for (const entry of value.split(",")) {
+    if (!entry.trim()) continue;
+    const [name, limit] = entry.split("=").map((part) => part.trim());
+    if (!name || limit === undefined) {
+      throw new Error(`Invalid tool rate limit: ${entry}`);
+    }
+    rules[name] = { perMinute: parseLimit(limit, 0) };
+  }
+  return rules;
+}
+
+/**
+ * 環境変数と既定値からレート制限を作成する。すべての上限が無効な場合は null を返す
+ *
+ * 0 を指定した上限は無効になる。
+ */
+export function createRateLimiterFromEnv(): RateLimiter | null {
+  const perMinute = parseLimit(
+    // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+    process.env["MCP_RATE_LIMIT_PER_MINUTE"],
+    CONFIG.HTTP_RATE_LIMIT_PER_MINUTE,
+  );
+  const dailyQuota = parseLimit(
+    // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+    process.env["MCP_DAILY_QUOTA"],
+    CONFIG.HTTP_DAILY_QUOTA,
+  );
+  const tools = Object.fromEntries(
+    Object.entries({
+      ...Object.fromEntries(
+        Object.entries(CONFIG.HTTP_TOOL_RATE_LIMITS_PER_MINUTE).map(
+          ([name, limit]) => [name, { perMinute: limit }],
+        ),
+      ),
+      // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+      ...parseToolRateLimits(process.env["MCP_TOOL_RATE_LIMITS"] ?? ""),
+    }).filter(([, rule]) => rule.perMinute > 0),
+  );
+
+  if (perMinute === 0 && dailyQuota === 0 && Object.keys(tools).length === 0) {
+    return null;
+  }
+
+  return new RateLimiter({
+    global: perMinute > 0 ? { perMinute } : null,
+    tools,
+    dailyQuota: dailyQuota > 0 ? dailyQuota : null,
+  });
+}
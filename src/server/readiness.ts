@@ -0,0 +1,136 @@
+import {
+  type UpstreamProbeResult,
+  getCacheStats,
+  getCircuitStates,
+  getOfflineSnapshot,
+  getValidationMetrics,
+  probeUpstream,
+} from "../api.js";
+import type { CacheStats } from "../cache.js";
+import type { CircuitState } from "../circuit-breaker.js";
+import { CONFIG } from "../config.js";
+
+export interface ReadinessReport {
+  readonly status: "ready" | "degraded";
+  readonly checks: {
+    /** オフラインスナップショット使用中は上流にアクセスしないため null */
+    readonly upstream: {
+      readonly ok: boolean;
+      readonly status_code: number | null;
+      readonly latency_ms: number;
+      readonly error: string | null;
+      readonly checked_at: string;
+    } | null;
+    readonly validation: {
+      readonly healthy: boolean;
+      readonly success_rate: number;
+      readonly total_requests: number;
+      readonly validation_failures: number;
+      readonly last_failure_at: string | null;
+    };
+    readonly cache: CacheStats;
+    /** リクエストしたエンドポイントごとのサーキットブレーカーの状態 */
+    readonly circuit_breakers: Readonly<Record<string, CircuitState>>;
+    readonly snapshot: {
+      readonly enabled: boolean;
+      readonly created_at: string | null;
+      readonly age_seconds: number | null;
+    };
+  };
+}
+
+export interface ReadinessProbeOptions {
+  readonly probe?: () => Promise<UpstreamProbeResult>;
+  /** 上流の確認結果を再利用する期間（ミリ秒） */
+  readonly cacheDurationMs?: number;
+  readonly now?: () => number;
+}
+
+interface CachedProbe {
+  readonly result: UpstreamProbeResult;
+  readonly checkedAt: number;
+}
+
+/**
+ * `/ready` で返す準備状態を判定する
+ *
+ * 上流の API に応答がない場合、スキーマ検証の失敗が多い場合、
+ * またはいずれかのエンドポイントへのリクエストを遮断している場合は degraded とする。
+ * オーケストレーターから頻繁に呼ばれても上流に負荷をかけないよう、上流の確認結果は一定期間再利用する。
+ */
+export class ReadinessProbe {
+  private readonly probe: () => Promise<UpstreamProbeResult>;
+  private readonly cacheDurationMs: number;
+  private readonly now: () => number;
+  private cached: CachedProbe | null = null;
+  private inFlight: Promise<CachedProbe> | null = null;
+
+  constructor(options: ReadinessProbeOptions = {}) {
+    this.probe = options.probe ?? (() => probeUpstream());
+    this.cacheDurationMs =
+      options.cacheDurationMs ?? CONFIG.READY_PROBE_CACHE_DURATION;
+    this.now = options.now ?? Date.now;
+  }
+
+  async check(): Promise<ReadinessReport> {
+    const snapshot = getOfflineSnapshot();
+    const upstream = snapshot ? null : await this.probeUpstream();
+    const validation = getValidationMetrics();
+
+    const createdAt = snapshot ? Date.parse(snapshot.created_at) : Number.NaN;
+    const circuits = getCircuitStates();
+    const healthy =
+      (upstream?.result.ok ?? true) &&
+      validation.isHealthy &&
+      !Object.values(circuits).includes("open");
+
+    return {
+      status: healthy ? "ready" : "degraded",
+      checks: {
+        upstream: upstream && {
+          ok: upstream.result.ok,
+          status_code: upstream.result.statusCode,
+          latency_ms: upstream.result.latencyMs,
+          error: upstream.result.error,
+          checked_at: new Date(upstream.checkedAt).toISOString(),
+        },
+        validation: {
+          healthy: validation.isHealthy,
+          success_rate: validation.successRate,
+          total_requests: validation.totalRequests,
+          validation_failures: validation.validationFailures,
+          last_failure_at: validation.lastFailureAt?.toISOString() ?? null,
+        },
+        cache: getCacheStats(),
+        circuit_breakers: circuits,
+        snapshot: {
+          enabled: snapshot !== null,
+          created_at: snapshot?.created_at ?? null,
+          age_seconds: Number.isNaN(createdAt)
+            ? null
+            : Math.max(0, Math.floor((this.now() - createdAt) / 1000)),
+        },
+      },
+    };
+  }
+
+  private async probeUpstream(): Promise<CachedProbe> {
+    if (
+      this.cached &&
+      this.now() - this.cached.checkedAt < this.cacheDurationMs
+    ) {
+      return this.cached;
+    }
+
+    // 同時に届いた確認要求は1回の上流アクセスにまとめる
+    this.inFlight ??= this.probe()
+      .then((result) => {
+        this.cached = { result, checkedAt: this.now() };
+        return this.cached;
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+    return this.inFlight;
+  }
+}
@@ -0,0 +1,6 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerKuhiResources } from "./kuhi.js";
+
+export function registerAllResources(server: McpServer): void {
+  registerKuhiResources(server);
+}
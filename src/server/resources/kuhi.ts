@@ -0,0 +1,168 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  fetchLocationById,
+  fetchLocations,
+  fetchMonumentById,
+  fetchMonuments,
+  fetchPoetById,
+  fetchPoets,
+  fetchSourceById,
+  fetchSources,
+} from "../../api.js";
+import { CONFIG } from "../../config.js";
+import { getMonumentStore } from "../../monument-store.js";
+import type { Location, Monument, Poet, Source } from "../../types.js";
+
+export const KUHI_URI_SCHEME = "kuhi";
+
+const MAX_COMPLETIONS = 100;
+
+interface KuhiResourceDefinition<T extends { id: number }> {
+  readonly name: string;
+  readonly collection: string;
+  readonly title: string;
+  readonly description: string;
+  readonly fetchById: (id: number) => Promise<T>;
+  readonly fetchList: () => Promise<T[]>;
+  /** ID の補完に使う全件の ID。省略した場合は `fetchList` の ID を使う */
+  readonly fetchAllIds?: () => Promise<readonly number[]>;
+  readonly label: (item: T) => string;
+}
+
+export function buildKuhiUri(collection: string, id: number): string {
+  return `${KUHI_URI_SCHEME}://${collection}/${id}`;
+}
+
+function parseResourceId(variables: Variables): number {
+  const { id: value } = variables;
+  const raw = Array.isArray(value) ? value[0] : value;
+  const id = Number(raw);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`不正なIDです: ${String(raw)}`);
+  }
+
+  return id;
+}
+
+function registerKuhiResource<T extends { id: number }>(
+  server: McpServer,
+  definition: KuhiResourceDefinition<T>,
+): void {
+  const template = new ResourceTemplate(
+    `${KUHI_URI_SCHEME}://${definition.collection}/{id}`,
+    {
+      list: async () => {
+        const items = await definition.fetchList();
+        return {
+          resources: items.map((item) => ({
+            uri: buildKuhiUri(definition.collection, item.id),
+            name: definition.label(item),
+            mimeType: "application/json",
+          })),
+        };
+      },
+      complete: {
+        id: async (value) => {
+          const ids = await (definition.fetchAllIds
+            ? definition.fetchAllIds()
+            : definition.fetchList().then((items) => items.map((i) => i.id))
+          ).catch(() => []);
+          return [...ids]
+            .sort((a, b) => a - b)
+            .map(String)
+            .filter((id) => id.startsWith(value))
+            .slice(0, MAX_COMPLETIONS);
+        },
+      },
+    },
+  );
+
+  server.registerResource(
+    definition.name,
+    template,
+    {
+      title: definition.title,
+      description: definition.description,
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const id = parseResourceId(variables);
+      const item = await definition.fetchById(id);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(item, null, 2),
+          },
+        ],
+      };
+    },
+  );
+}
+
+export function registerKuhiResources(server: McpServer): void {
+  registerKuhiResource<Monument>(server, {
+    name: "monument",
+    collection: "monuments",
+    title: "句碑",
+    description:
+      "句碑IDを指定して句碑の詳細データ（碑文・俳人・設置場所など）を取得",
+    fetchById: fetchMonumentById,
+    fetchList: () => fetchMonuments({ limit: CONFIG.DEFAULT_LIMIT }),
+    fetchAllIds: async () =>
+      (await getMonumentStore().all()).map((monument) => monument.id),
+    label: (monument) => monument.canonical_name,
+  });
+
+  registerKuhiResource<Poet>(server, {
+    name: "poet",
+    collection: "poets",
+    title: "俳人",
+    description:
+      "俳人IDを指定して俳人の詳細データ（読み・経歴・生没年など）を取得",
+    fetchById: fetchPoetById,
+    fetchList: () => fetchPoets(),
+    label: (poet) => poet.name,
+  });
+
+  registerKuhiResource<Source>(server, {
+    name: "source",
+    collection: "sources",
+    title: "出典",
+    description:
+      "出典IDを指定して出典の詳細データ（著者・書名・発行年など）を取得",
+    fetchById: fetchSourceById,
+    fetchList: () => fetchSources(),
+    label: (source) => source.title ?? source.citation,
+  });
+
+  registerKuhiResource<Location>(server, {
+    name: "location",
+    collection: "locations",
+    title: "設置場所",
+    description:
+      "場所IDを指定して設置場所の詳細データ（住所・緯度経度など）を取得",
+    fetchById: fetchLocationById,
+    fetchList: () => fetchLocations({ limit: CONFIG.DEFAULT_LIMIT }),
+    // 句碑に登録された設置場所の ID を句碑ストアから集める
+    fetchAllIds: async () => [
+      ...new Set(
+        (await getMonumentStore().all()).flatMap((monument) =>
+          (monument.locations ?? []).map((location) => location.id),
+        ),
+      ),
+    ],
+    label: (location) =>
+      location.place_name ||
+      location.address ||
+      `${location.prefecture ?? ""}${location.municipality ?? ""}` ||
+      `場所ID ${location.id}`,
+  });
+}
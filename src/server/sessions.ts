@@ -0,0 +1,177 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { logger } from "../logger.js";
+import { createMcpServer } from "./create-server.js";
+
+const log = logger.child({ module: "sessions" });
+
+const MAX_SWEEP_INTERVAL_MS = 60000;
+
+export interface SessionManagerOptions {
+  readonly maxSessions: number;
+  readonly idleTimeoutMs: number;
+  readonly createServer?: () => McpServer;
+}
+
+interface ManagedSession {
+  readonly transport: StreamableHTTPServerTransport;
+  /** セッションを作成した API キーの名前（認証無効時は null） */
+  readonly owner: string | null;
+  lastActivity: number;
+}
+
+/**
+ * Streamable HTTP のセッションごとに MCP サーバーとトランスポートを管理する
+ *
+ * セッションは `initialize` リクエストで作成され、クライアントからの DELETE、
+ * 一定時間操作のないセッションの破棄、またはサーバー停止時に閉じられる。
+ */
+export class McpSessionManager {
+  private readonly sessions = new Map<string, ManagedSession>();
+  private readonly createServer: () => McpServer;
+  private pendingInitializations = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: SessionManagerOptions) {
+    this.createServer = options.createServer ?? (() => createMcpServer());
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * 初期化中のセッションも含めて上限に達していなければ true
+   */
+  canCreateSession(): boolean {
+    return (
+      this.sessions.size + this.pendingInitializations <
+      this.options.maxSessions
+    );
+  }
+
+  ownerOf(sessionId: string): string | null | undefined {
+    return this.sessions.get(sessionId)?.owner;
+  }
+
+  /**
+   * セッションのトランスポートを取得し、最終操作時刻を更新する
+   */
+  get(sessionId: string): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session.transport;
+  }
+
+  /**
+   * 新しいセッション用のサーバーとトランスポートを作成し、`initialize` リクエストを処理する
+   */
+  async handleInitializeRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown,
+    owner: string | null = null,
+  ): Promise<void> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, {
+          transport,
+          owner,
+          lastActivity: Date.now(),
+        });
+        log.info(
+          `MCPセッションを開始しました: ${sessionId}（${this.sessions.size}件）`,
+        );
+      },
+    });
+    transport.onclose = () => {
+      const { sessionId } = transport;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        log.info(
+          `MCPセッションを終了しました: ${sessionId}（${this.sessions.size}件）`,
+        );
+      }
+    };
+
+    const server = this.createServer();
+    // SDK のトランスポートは onclose などを `| undefined` 付きで宣言しており、
+    // exactOptionalPropertyTypes では Transport に代入できないため型を合わせる
+    await server.connect(transport as Transport);
+
+    this.pendingInitializations++;
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      this.pendingInitializations--;
+    }
+
+    // 初期化に失敗したトランスポートは再利用されないため閉じておく
+    if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+      await transport.close();
+    }
+  }
+
+  async closeSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    await session.transport.close();
+    this.sessions.delete(sessionId);
+    return true;
+  }
+
+  /**
+   * 最終操作から `idleTimeoutMs` 以上経過したセッションを閉じ、閉じた件数を返す
+   */
+  async evictIdleSessions(now = Date.now()): Promise<number> {
+    const expired = [...this.sessions.entries()]
+      .filter(
+        ([, session]) =>
+          now - session.lastActivity >= this.options.idleTimeoutMs,
+      )
+      .map(([sessionId]) => sessionId);
+
+    for (const sessionId of expired) {
+      log.info(`操作のないMCPセッションを破棄します: ${sessionId}`);
+      await this.closeSession(sessionId);
+    }
+    return expired.length;
+  }
+
+  startIdleSweep(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    const interval = Math.min(
+      Math.max(this.options.idleTimeoutMs / 2, 1000),
+      MAX_SWEEP_INTERVAL_MS,
+    );
+    this.sweepTimer = setInterval(() => {
+      this.evictIdleSessions().catch((error) => {
+        log.error("MCPセッションの破棄に失敗しました", { error });
+      });
+    }, interval);
+    this.sweepTimer.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all(
+      [...this.sessions.keys()].map((sessionId) =>
+        this.closeSession(sessionId),
+      ),
+    );
+  }
+}
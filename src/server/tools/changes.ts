@@ -0,0 +1,231 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { fetchPoets } from "../../api.js";
+import {
+  type MonumentFieldChange,
+  diffMonuments,
+} from "../../monument-diff.js";
+import { type MonumentQuery, getMonumentStore } from "../../monument-store.js";
+import { MonumentSchema } from "../../schemas.js";
+import type { Monument } from "../../types.js";
+import { registerInstrumentedTool } from "./instrumented-tool.js";
+import { findPoetByFlexibleName } from "./monument-query.js";
+import { ToolProgress } from "./progress.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MonumentFieldChangeSchema = z.object({
+  field: z.string(),
+  label: z.string(),
+  before: z.string().nullable(),
+  after: z.string().nullable(),
+});
+
+const RecentMonumentChangesOutputSchema = z.object({
+  since: z.string().describe("この日時より後の追加・更新を対象にした"),
+  total_added: z.number(),
+  total_updated: z.number(),
+  added: z.array(MonumentSchema).describe("新しく登録された句碑（新しい順）"),
+  updated: z
+    .array(
+      z.object({
+        monument: MonumentSchema,
+        changes: z
+          .array(MonumentFieldChangeSchema)
+          .nullable()
+          .describe("変更された項目。変更前の内容が手元にない場合は null"),
+      }),
+    )
+    .describe("内容が更新された句碑（新しい順）"),
+});
+
+function describeMonument(monument: Monument): string {
+  const location = monument.locations?.[0];
+  const place = location
+    ? `${location.prefecture ?? ""}${location.municipality ?? ""}`
+    : "";
+  const poets = (monument.poets ?? []).map((p) => p.name).join("、");
+  return [
+    `**${monument.canonical_name}**（ID: ${monument.id}）`,
+    place || "所在地不明",
+    poets || "俳人不明",
+  ].join(" / ");
+}
+
+function formatChange({ label, before, after }: MonumentFieldChange): string {
+  return `   - ${label}: ${before ?? "（なし）"} → ${after ?? "（なし）"}`;
+}
+
+export function registerChangeTools(server: McpServer): void {
+  registerInstrumentedTool(
+    server,
+    "list_recent_monument_changes",
+    {
+      description: `指定した期間に新しく登録された句碑と、内容が更新された句碑を一覧します。
+
+このToolは以下のユーザーの意図に対応します：
+- 最近データベースに追加された句碑を知りたい
+- 特定の地域や俳人の句碑の更新を追いかけたい
+- 句碑の情報がどう変わったかを確認したい
+
+返却データ:
+- 新しく登録された句碑（created_at が期間内）
+- 更新された句碑（updated_at が期間内）と、変更前の内容を記録している場合は項目ごとの変更点
+
+使用例:
+- この1週間に追加された句碑を確認する
+- 2025年1月以降に更新された三重県の句碑を調べる
+- 松尾芭蕉の句碑の最近の変更を確認する`,
+      inputSchema: z.object({
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(365)
+          .default(7)
+          .describe("何日前からの変更を対象にするか（1-365、デフォルト: 7）"),
+        since: z
+          .string()
+          .optional()
+          .describe(
+            "この日時より後の変更を対象にする（例: 2025-01-01、2025-01-01T09:00:00+09:00）。指定すると days より優先",
+          ),
+        prefecture: z.string().optional().describe("都道府県名（例: 三重県）"),
+        poet_name: z.string().optional().describe("俳人名（例: 松尾芭蕉）"),
+        max_results: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(20)
+          .describe(
+            "新規・更新それぞれの最大表示件数（1-100、デフォルト: 20）",
+          ),
+      }),
+      outputSchema: RecentMonumentChangesOutputSchema,
+    },
+    async ({ days, since, prefecture, poet_name, max_results }, extra) => {
+      if (since !== undefined && Number.isNaN(Date.parse(since))) {
+        throw new Error(
+          "since は 2025-01-01 や 2025-01-01T09:00:00+09:00 の形式で指定してください",
+        );
+      }
+      const threshold =
+        since ?? new Date(Date.now() - days * DAY_MS).toISOString();
+
+      const filters: MonumentQuery = {};
+      if (prefecture) {
+        filters.prefecture = prefecture;
+      }
+      if (poet_name) {
+        const poet = findPoetByFlexibleName(await fetchPoets(), poet_name);
+        if (!poet) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `俳人「${poet_name}」が見つかりませんでした。名前を確認してください。`,
+              },
+            ],
+            structuredContent: {
+              since: threshold,
+              total_added: 0,
+              total_updated: 0,
+              added: [],
+              updated: [],
+            },
+          };
+        }
+        filters.poet_id = poet.id;
+      }
+
+      const store = getMonumentStore();
+      const crawl = new ToolProgress(extra).crawl();
+      const added = await store.query(
+        { ...filters, created_at_gt: threshold, ordering: "-created_at" },
+        undefined,
+        crawl,
+      );
+      const addedIds = new Set(added.map((m) => m.id));
+      const updated = (
+        await store.query(
+          { ...filters, updated_at_gt: threshold, ordering: "-updated_at" },
+          undefined,
+          crawl,
+        )
+      ).filter((m) => !addedIds.has(m.id));
+
+      const listedAdded = added.slice(0, max_results);
+      const listedUpdated = updated.slice(0, max_results).map((monument) => {
+        const previous = store.previousVersionOf(monument.id);
+        return {
+          monument,
+          changes: previous ? diffMonuments(previous, monument) : null,
+        };
+      });
+      const structuredContent = {
+        since: threshold,
+        total_added: added.length,
+        total_updated: updated.length,
+        added: listedAdded,
+        updated: listedUpdated,
+      };
+
+      if (added.length === 0 && updated.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${threshold} 以降に追加・更新された句碑はありません。`,
+            },
+          ],
+          structuredContent,
+        };
+      }
+
+      const sections = [
+        `# 句碑の更新情報（${threshold} 以降）`,
+        `- 新規: ${added.length}基\n- 更新: ${updated.length}基`,
+      ];
+      if (listedAdded.length > 0) {
+        sections.push(
+          `## 新しく登録された句碑\n${listedAdded
+            .map(
+              (m, i) =>
+                `${i + 1}. ${describeMonument(m)}（登録: ${m.created_at}）`,
+            )
+            .join("\n")}`,
+        );
+      }
+      if (listedUpdated.length > 0) {
+        sections.push(
+          `## 更新された句碑\n${listedUpdated
+            .map(({ monument, changes }, i) => {
+              const header = `${i + 1}. ${describeMonument(monument)}（更新: ${monument.updated_at}）`;
+              if (changes === null) {
+                return `${header}\n   - 変更前の内容が記録されていないため、変更点は表示できません`;
+              }
+              if (changes.length === 0) {
+                return `${header}\n   - 表示している項目に変更はありません`;
+              }
+              return [header, ...changes.map(formatChange)].join("\n");
+            })
+            .join("\n")}`,
+        );
+      }
+      const omitted =
+        Math.max(0, added.length - max_results) +
+        Math.max(0, updated.length - max_results);
+      if (omitted > 0) {
+        sections.push(
+          `ほかに${omitted}基あります。max_results を増やすか、期間・条件を絞り込んでください。`,
+        );
+      }
+
+      return {
+        content: [{ type: "text", text: sections.join("\n\n") }],
+        structuredContent,
+      };
+    },
+  );
+}
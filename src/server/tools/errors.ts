@@ -0,0 +1,71 @@
+import { ENDPOINTS } from "../../config.js";
+import {
+  ApiError,
+  CircuitOpenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamServerError,
+  ValidationFailedError,
+} from "../../errors.js";
+
+const RESOURCE_LABELS: Readonly<Record<string, string>> = {
+  [ENDPOINTS.MONUMENTS]: "句碑",
+  [ENDPOINTS.POETS]: "俳人",
+  [ENDPOINTS.SOURCES]: "出典",
+  [ENDPOINTS.LOCATIONS]: "設置場所",
+};
+
+/**
+ * Tool の利用者（LLM とその先のユーザー）に返すエラーメッセージを作成する
+ *
+ * 句碑 API のエラーは種類ごとに原因と対処がわかる日本語にし、それ以外は `message` をそのまま使う。
+ */
+export function describeToolError(error: unknown): string {
+  if (error instanceof NotFoundError) {
+    const label = RESOURCE_LABELS[error.resource] ?? "データ";
+    return error.id === null
+      ? `${label}が見つかりませんでした`
+      : `${label}ID ${error.id} は存在しません`;
+  }
+  if (error instanceof RateLimitedError) {
+    return error.retryAfterSeconds === null
+      ? "句碑 API の利用制限に達しました。しばらく待ってから再度お試しください"
+      : `句碑 API の利用制限に達しました。${error.retryAfterSeconds}秒後に再度お試しください`;
+  }
+  if (error instanceof CircuitOpenError) {
+    return `句碑 API への接続に繰り返し失敗しているため、リクエストを一時的に停止しています。${error.retryAfterSeconds}秒後に再度お試しください`;
+  }
+  if (error instanceof UpstreamServerError) {
+    return `句碑 API でサーバーエラーが発生しました（HTTP ${error.status}）。しばらく待ってから再度お試しください`;
+  }
+  if (error instanceof TimeoutError) {
+    return `句碑 API から${Math.round(error.timeoutMs / 1000)}秒以内に応答がありませんでした。しばらく待ってから再度お試しください`;
+  }
+  if (error instanceof ValidationFailedError) {
+    return "句碑 API から想定外の形式のデータが返されました";
+  }
+  if (error instanceof NetworkError) {
+    return "句碑 API に接続できませんでした。ネットワークの状態を確認してください";
+  }
+  if (error instanceof ApiError) {
+    return `句碑 API へのリクエストが受け付けられませんでした（HTTP ${error.status}）`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * エラーを Tool のエラー結果（`isError: true`）にする
+ */
+export function toolErrorResult(error: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `エラー: ${describeToolError(error)}`,
+      },
+    ],
+    isError: true,
+  };
+}
@@ -1,12 +1,37 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { fetchMonuments } from "../../api.js";
+import { fetchAllMonuments, fetchMonuments } from "../../api.js";
+import {
+  EXPORT_FORMATS,
+  serializeFeatureCollection,
+} from "../../export-formats.js";
+import {
+  formatBbox,
+  getAreaGeometryBbox,
+  isPointInAreaGeometry,
+} from "../../geometry.js";
+import {
+  type BoundingBox,
+  isLocationInBbox,
+  parseBbox,
+} from "../../local-query.js";
+import {
+  GeoJSONAreaGeometrySchema,
+  GeoJSONFeatureCollectionSchema,
+} from "../../schemas.js";
 import type {
+  GeoJSONAreaGeometry,
   GeoJSONFeature,
   GeoJSONFeatureCollection,
   Monument,
   SearchOptions,
 } from "../../types.js";
+import { toolErrorResult } from "./errors.js";
+import { registerInstrumentedTool } from "./instrumented-tool.js";
+import { ToolProgress } from "./progress.js";
+
+// ポリゴン検索で外接矩形から取得する句碑の上限
+const MAX_AREA_PREFETCH = 5000;
 
 function safeArrayAccess<T>(
   array: readonly T[] | undefined,
@@ -66,12 +91,34 @@ export function convertToGeoJSON(
   };
 }
 
+function isMonumentInArea(
+  monument: Monument,
+  bbox: BoundingBox,
+  polygon: GeoJSONAreaGeometry | undefined,
+): boolean {
+  const location = safeArrayAccess(monument.locations, 0);
+  if (
+    !location ||
+    location.latitude == null ||
+    location.longitude == null ||
+    !isLocationInBbox(location, bbox)
+  ) {
+    return false;
+  }
+
+  return (
+    !polygon ||
+    isPointInAreaGeometry(location.longitude, location.latitude, polygon)
+  );
+}
+
 export function registerGeoJSONTools(server: McpServer): void {
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "get_haiku_monuments_geojson",
     {
       description:
-        "句碑データベースに登録されている句碑の情報をGeoJSON形式で表示",
+        "句碑データベースに登録されている句碑の情報をGeoJSON形式で表示（KML・GPX・CSV形式のテキストも出力可能）",
       inputSchema: z.object({
         prefecture: z
           .string()
@@ -91,9 +138,16 @@ export function registerGeoJSONTools(server: McpServer): void {
           .optional()
           .default(50)
           .describe("取得件数（デフォルト: 50）"),
+        format: z
+          .enum(EXPORT_FORMATS)
+          .default("geojson")
+          .describe(
+            "テキスト出力の形式: geojson / kml（Google マイマップ・Google Earth）/ gpx（登山・地図アプリ）/ csv（表計算ソフト）",
+          ),
       }),
+      outputSchema: GeoJSONFeatureCollectionSchema,
     },
-    async ({ prefecture, municipality, region, poet_name, limit }) => {
+    async ({ prefecture, municipality, region, poet_name, limit, format }) => {
       const options: SearchOptions = { limit };
 
       if (prefecture) {
@@ -116,10 +170,109 @@ export function registerGeoJSONTools(server: McpServer): void {
         content: [
           {
             type: "text",
-            text: JSON.stringify(geojson, null, 2),
+            text: serializeFeatureCollection(geojson, format),
           },
         ],
+        structuredContent: { ...geojson },
       };
     },
   );
+
+  registerInstrumentedTool(
+    server,
+    "search_monuments_in_area",
+    {
+      description: `矩形（bbox）または GeoJSON の Polygon / MultiPolygon で指定した範囲内の句碑を GeoJSON 形式で返します。
+
+このToolは以下のユーザーの意図に対応します：
+- 地図上で選んだ範囲にある句碑をまとめて取得したい
+- 行政区画にとらわれない範囲（川沿い、街道沿いなど）で句碑を探したい
+
+検索方法:
+- bbox は API 側で絞り込みます
+- ポリゴンは外接矩形で API 側の絞り込みを行った後、ポリゴンの内外判定で精査します
+- format を指定するとテキスト出力を KML・GPX・CSV 形式にできます（構造化データは常に GeoJSON）
+
+使用例:
+- bbox "136.6,35.0,136.8,35.1" の範囲の句碑
+- 桑名市街を囲むポリゴン内の松尾芭蕉の句碑`,
+      inputSchema: z.object({
+        bbox: z
+          .string()
+          .optional()
+          .describe(
+            "検索範囲の矩形（最小経度,最小緯度,最大経度,最大緯度 例: 136.6,35.0,136.8,35.1）",
+          ),
+        polygon: GeoJSONAreaGeometrySchema.optional().describe(
+          "検索範囲の GeoJSON ジオメトリ（Polygon または MultiPolygon、座標は [経度, 緯度]）",
+        ),
+        poet_name: z
+          .string()
+          .optional()
+          .describe("俳人名で絞り込み（例: 松尾芭蕉）"),
+        limit: z
+          .number()
+          .min(1)
+          .max(1000)
+          .default(100)
+          .describe("取得件数（1-1000、デフォルト: 100）"),
+        format: z
+          .enum(EXPORT_FORMATS)
+          .default("geojson")
+          .describe(
+            "テキスト出力の形式: geojson / kml（Google マイマップ・Google Earth）/ gpx（登山・地図アプリ）/ csv（表計算ソフト）",
+          ),
+      }),
+      outputSchema: GeoJSONFeatureCollectionSchema,
+    },
+    async ({ bbox, polygon, poet_name, limit, format }, extra) => {
+      try {
+        if (Boolean(bbox) === Boolean(polygon)) {
+          throw new Error("bbox と polygon のどちらか一方を指定してください");
+        }
+
+        const area = polygon
+          ? getAreaGeometryBbox(polygon)
+          : parseBbox(bbox ?? "");
+        if (
+          !area ||
+          area.minLongitude > area.maxLongitude ||
+          area.minLatitude > area.maxLatitude
+        ) {
+          throw new Error(
+            "bbox は「最小経度,最小緯度,最大経度,最大緯度」の形式で指定してください",
+          );
+        }
+
+        const options: Omit<SearchOptions, "limit" | "offset"> = {
+          bbox: formatBbox(area),
+        };
+        if (poet_name) {
+          options.poet_name_contains = poet_name;
+        }
+
+        const candidates = await fetchAllMonuments(
+          options,
+          polygon ? MAX_AREA_PREFETCH : limit,
+          new ToolProgress(extra).crawl(),
+        );
+        const monuments = candidates
+          .filter((monument) => isMonumentInArea(monument, area, polygon))
+          .slice(0, limit);
+        const geojson = convertToGeoJSON(monuments);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: serializeFeatureCollection(geojson, format),
+            },
+          ],
+          structuredContent: { ...geojson },
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  );
 }
@@ -1,5 +1,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerChangeTools } from "./changes.js";
 import { registerGeoJSONTools } from "./geojson.js";
+import { registerRouteTools } from "./route.js";
 import { registerSearchTools } from "./search.js";
 import { registerTourismTools } from "./tourism.js";
 
@@ -7,4 +9,6 @@ export function registerAllTools(server: McpServer): void {
   registerTourismTools(server);
   registerSearchTools(server);
   registerGeoJSONTools(server);
+  registerRouteTools(server);
+  registerChangeTools(server);
 }
@@ -0,0 +1,99 @@
+import { randomUUID } from "node:crypto";
+import type {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { z } from "zod";
+import { logger, runWithLogContext, runWithLogSink } from "../../logger.js";
+import { toolCallDuration, toolCallsTotal } from "../../metrics.js";
+import { ClientLogForwarder } from "../logging.js";
+import { toolErrorResult } from "./errors.js";
+import type { ToolExtra } from "./progress.js";
+
+const log = logger.child({ module: "tools" });
+
+export interface InstrumentedToolConfig<
+  InputSchema extends z.ZodObject,
+  OutputSchema extends z.ZodObject,
+> {
+  readonly description: string;
+  readonly inputSchema: InputSchema;
+  readonly outputSchema: OutputSchema;
+}
+
+export type InstrumentedToolHandler<InputSchema extends z.ZodObject> = (
+  args: z.output<InputSchema>,
+  extra: ToolExtra,
+) => Promise<CallToolResult>;
+
+/**
+ * 呼び出し回数と処理時間を記録する Tool を登録する
+ *
+ * 呼び出しごとに相関 ID（`correlation_id`）を発行し、Tool の処理中に出力されるログに付与する。
+ * サーバーに `ClientLogForwarder` があれば、ログを呼び出し元のクライアントにも
+ * `notifications/message` として送る。Tool が送出したエラーは、種類に応じた日本語の
+ * メッセージを持つエラー結果にする。
+ */
+export function registerInstrumentedTool<
+  InputSchema extends z.ZodObject,
+  OutputSchema extends z.ZodObject,
+>(
+  server: McpServer,
+  name: string,
+  config: InstrumentedToolConfig<InputSchema, OutputSchema>,
+  handler: InstrumentedToolHandler<InputSchema>,
+): RegisteredTool {
+  const forwarder = ClientLogForwarder.of(server);
+
+  // SDK の引数の型は入力スキーマの型引数から決まらないため、SDK が検証した引数を
+  // 同じスキーマで解析し直してハンドラーの引数の型にする
+  return server.registerTool<OutputSchema, AnySchema>(
+    name,
+    config,
+    (args: unknown, extra: ToolExtra) => {
+      const run = () =>
+        runWithLogContext({ correlation_id: randomUUID(), tool: name }, () =>
+          callTool(name, extra, () =>
+            handler(config.inputSchema.parse(args), extra),
+          ),
+        );
+      return forwarder
+        ? runWithLogSink(forwarder.sinkFor(extra.sendNotification), run)
+        : run();
+    },
+  );
+}
+
+async function callTool(
+  name: string,
+  extra: ToolExtra,
+  call: () => Promise<CallToolResult>,
+): Promise<CallToolResult> {
+  const startedAt = performance.now();
+  let status = "error";
+  try {
+    const result = await call();
+    status = result.isError ? "error" : "success";
+    return result;
+  } catch (error) {
+    if (extra.signal.aborted) {
+      throw error;
+    }
+    log.error("Tool の実行に失敗しました", { error });
+    return toolErrorResult(error);
+  } finally {
+    // 取り消された呼び出しは Tool がエラー結果を返した場合も取り消しとして記録する
+    if (extra.signal.aborted) {
+      status = "cancelled";
+    }
+    const durationSeconds = (performance.now() - startedAt) / 1000;
+    toolCallsTotal.inc({ tool: name, status });
+    toolCallDuration.observe({ tool: name }, durationSeconds);
+    log.debug("Tool を実行しました", {
+      status,
+      duration_ms: Math.round(durationSeconds * 1000),
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import { type CrawlOptions, fetchLocations, fetchPoets } from "../../api.js";
+import { getMonumentStore } from "../../monument-store.js";
+import type { Location, Monument, SearchOptions } from "../../types.js";
+
+export interface ResolvedCoordinates {
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly label?: string;
+  readonly prefecture?: string;
+  readonly municipality?: string;
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function scoreLocationMatch(location: Location, query: string): number {
+  const normalizedQuery = query.replace(/\s+/gu, "");
+  let score = 0;
+
+  if (location.place_name) {
+    const place = location.place_name.replace(/\s+/gu, "");
+    if (place && normalizedQuery.includes(place)) {
+      score += 5;
+    }
+  }
+
+  if (location.address?.includes(query)) {
+    score += 3;
+  }
+
+  if (location.municipality && query.includes(location.municipality)) {
+    score += 2;
+  }
+
+  if (location.prefecture && query.includes(location.prefecture)) {
+    score += 1;
+  }
+
+  return score;
+}
+
+export async function resolveCoordinatesFromQuery(
+  query: string,
+  prefecture?: string,
+): Promise<ResolvedCoordinates | null> {
+  const normalized = query.trim();
+  if (!normalized) {
+    return null;
+  }
+
+  const params: Partial<SearchOptions> = {
+    search: normalized,
+    limit: 10,
+  };
+
+  if (prefecture) {
+    params.prefecture = prefecture;
+  }
+
+  const candidates = await fetchLocations(params).catch(() => []);
+  const scored = candidates
+    .filter(
+      (location) =>
+        isFiniteNumber(location.latitude) && isFiniteNumber(location.longitude),
+    )
+    .map((location) => ({
+      location,
+      score: scoreLocationMatch(location, normalized),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  if (!best || best.score <= 0) {
+    return null;
+  }
+
+  return {
+    latitude: best.location.latitude as number,
+    longitude: best.location.longitude as number,
+    ...(best.location.place_name || best.location.address
+      ? {
+          label:
+            best.location.place_name ?? best.location.address ?? normalized,
+        }
+      : {}),
+    ...(best.location.prefecture
+      ? { prefecture: best.location.prefecture }
+      : {}),
+    ...(best.location.municipality
+      ? { municipality: best.location.municipality }
+      : {}),
+  };
+}
+
+function normalizePoetText(value: string): string {
+  return value.replace(/[「」『』（）()【】\s・,，、]/gu, "").toLowerCase();
+}
+
+export function findPoetByFlexibleName(
+  poets: readonly { name: string; id: number }[],
+  query: string,
+) {
+  const normalizedQuery = normalizePoetText(query);
+  if (!normalizedQuery) {
+    return undefined;
+  }
+
+  return poets.find((poet) => {
+    const normalizedName = normalizePoetText(poet.name);
+    return (
+      normalizedName === normalizedQuery ||
+      normalizedName.includes(normalizedQuery) ||
+      normalizedQuery.includes(normalizedName)
+    );
+  });
+}
+
+export interface TourismFilters {
+  readonly poet_name?: string | undefined;
+  readonly region?: string | undefined;
+  readonly season?: string | undefined;
+  readonly prefecture?: string | undefined;
+  readonly municipality?: string | undefined;
+}
+
+/**
+ * 観光向けの条件（俳人・地域・季節など）に一致する句碑を取得する
+ *
+ * 俳人名が指定されたが該当する俳人がいない場合は null を返す。
+ */
+export async function findMonumentsForTourism(
+  filters: TourismFilters,
+  crawl: CrawlOptions = {},
+): Promise<Monument[] | null> {
+  const { poet_name, region, season, prefecture, municipality } = filters;
+
+  let results: Monument[] = [];
+  if (poet_name) {
+    const allPoets = await fetchPoets();
+    const poet = findPoetByFlexibleName(allPoets, poet_name);
+    if (!poet) {
+      return null;
+    }
+    results = await getMonumentStore().query(
+      { poet_id: poet.id },
+      undefined,
+      crawl,
+    );
+  } else {
+    results = await getMonumentStore().all(crawl);
+  }
+
+  let filtered = results;
+
+  // 都道府県フィルタ
+  if (prefecture) {
+    filtered = filtered.filter((m) =>
+      m.locations?.some((l) => l.prefecture === prefecture),
+    );
+  }
+  // 地域フィルタ
+  if (region) {
+    filtered = filtered.filter((m) =>
+      m.locations?.some((l) => l.region === region),
+    );
+  }
+  // 市区町村フィルタ
+  if (municipality) {
+    filtered = filtered.filter((m) =>
+      m.locations?.some((l) => l.municipality?.includes(municipality)),
+    );
+  }
+  // 季節フィルタ
+  if (season) {
+    filtered = filtered.filter((m) =>
+      m.inscriptions?.some((i) => i.poems?.some((p) => p.season === season)),
+    );
+  }
+
+  return filtered;
+}
+
+export interface SearchCenterInput {
+  readonly latitude?: number | undefined;
+  readonly longitude?: number | undefined;
+  readonly place_query?: string | undefined;
+  readonly prefecture?: string | undefined;
+}
+
+export interface SearchCenter {
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly label?: string;
+  readonly prefecture?: string;
+}
+
+/**
+ * 緯度経度または地点名から検索の基準地点を決定する
+ */
+export async function resolveSearchCenter(
+  input: SearchCenterInput,
+): Promise<SearchCenter> {
+  const { place_query, prefecture } = input;
+  let centerLatitude = input.latitude;
+  let centerLongitude = input.longitude;
+  let resolvedLabel: string | undefined;
+  let resolvedPrefecture = prefecture;
+
+  if (
+    (!isFiniteNumber(centerLatitude) || !isFiniteNumber(centerLongitude)) &&
+    place_query
+  ) {
+    const resolved = await resolveCoordinatesFromQuery(place_query, prefecture);
+    if (resolved) {
+      centerLatitude = resolved.latitude;
+      centerLongitude = resolved.longitude;
+      resolvedLabel = resolved.label;
+      resolvedPrefecture = prefecture ?? resolved.prefecture;
+    } else {
+      throw new Error(
+        `指定された場所「${place_query}」を特定できませんでした。緯度・経度を直接入力してください。`,
+      );
+    }
+  }
+
+  if (!isFiniteNumber(centerLatitude) || !isFiniteNumber(centerLongitude)) {
+    throw new Error(
+      "緯度・経度、もしくは地点名(place_query)を指定してください",
+    );
+  }
+
+  if (centerLatitude < -90 || centerLatitude > 90) {
+    throw new Error("緯度は-90から90の範囲で指定してください");
+  }
+  if (centerLongitude < -180 || centerLongitude > 180) {
+    throw new Error("経度は-180から180の範囲で指定してください");
+  }
+
+  return {
+    latitude: centerLatitude,
+    longitude: centerLongitude,
+    ...(resolvedLabel ? { label: resolvedLabel } : {}),
+    ...(resolvedPrefecture ? { prefecture: resolvedPrefecture } : {}),
+  };
+}
@@ -0,0 +1,64 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { CrawlOptions } from "../../api.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Tool の処理中に句碑の全件取得の進捗を `notifications/progress` で通知する
+ *
+ * 1回の呼び出しで複数回の全件取得を行う場合も、進捗値が単調に増えるよう取得件数を累計する。
+ * クライアントが `progressToken` を指定しなかった場合は通知しない。
+ */
+export class ToolProgress {
+  private fetched = 0;
+
+  constructor(private readonly extra: ToolExtra) {}
+
+  get signal(): AbortSignal {
+    return this.extra.signal;
+  }
+
+  /**
+   * 句碑ストアの同期（`fetchAllMonuments`）に渡す中断シグナルと進捗コールバック
+   *
+   * @param label 通知メッセージに含める取得対象（例: 松尾芭蕉の句碑）
+   */
+  crawl(label = "句碑"): CrawlOptions {
+    const base = this.fetched;
+    return {
+      signal: this.extra.signal,
+      onProgress: ({ fetched, page, total }) => {
+        this.fetched = base + fetched;
+        this.notify(
+          `${label}を取得中: ${fetched}件（${page}ページ目）`,
+          total === undefined ? undefined : base + total,
+        );
+      },
+    };
+  }
+
+  private notify(message: string, total: number | undefined): void {
+    const progressToken = this.extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return;
+    }
+
+    this.extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: this.fetched,
+          ...(total !== undefined ? { total } : {}),
+          message,
+        },
+      })
+      .catch(() => {
+        // 切断済みのクライアントへの通知失敗は無視する
+      });
+  }
+}
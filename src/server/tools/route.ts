@@ -0,0 +1,730 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { fetchMonumentById } from "../../api.js";
+import { NotFoundError } from "../../errors.js";
+import {
+  ROUTE_DETOUR_FACTOR,
+  TRAVEL_SPEED_METERS_PER_MINUTE,
+  type TravelMode,
+  estimateTravelMinutes,
+  planItinerary,
+  planRoute,
+} from "../../route-planner.js";
+import { GeoJSONLineStringFeatureSchema } from "../../schemas.js";
+import { getMonumentSpatialIndex } from "../../spatial-index.js";
+import type {
+  Coordinates,
+  GeoJSONLineStringFeature,
+  Monument,
+} from "../../types.js";
+import { formatDistance } from "../../utils.js";
+import { toolErrorResult } from "./errors.js";
+import { registerInstrumentedTool } from "./instrumented-tool.js";
+import {
+  type SearchCenter,
+  findMonumentsForTourism,
+  findPoetByFlexibleName,
+  resolveSearchCenter,
+} from "./monument-query.js";
+import { ToolProgress } from "./progress.js";
+
+const MAX_ROUTE_STOPS = 50;
+const MAX_ITINERARY_CANDIDATES = 100;
+const MAX_ITINERARY_MINUTES = 720;
+const TIME_OF_DAY_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/u;
+
+const TRAVEL_MODE_LABELS: Readonly<Record<TravelMode, string>> = {
+  walking: "徒歩",
+  driving: "車",
+};
+
+interface RouteStop extends Coordinates {
+  readonly monument: Monument;
+}
+
+const RouteOutputSchema = z.object({
+  travel_mode: z.enum(["walking", "driving"]),
+  start: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+      label: z.string().nullable(),
+    })
+    .nullable(),
+  stops: z.array(
+    z.object({
+      order: z.number(),
+      monument_id: z.number(),
+      canonical_name: z.string(),
+      latitude: z.number(),
+      longitude: z.number(),
+      leg_distance_meters: z.number(),
+      cumulative_distance_meters: z.number(),
+      leg_minutes: z.number(),
+    }),
+  ),
+  total_distance_meters: z.number(),
+  estimated_minutes: z.number(),
+  route: GeoJSONLineStringFeatureSchema,
+});
+
+function toRouteStop(monument: Monument): RouteStop | null {
+  const location = monument.locations?.[0];
+  if (location?.latitude == null || location.longitude == null) {
+    return null;
+  }
+  return {
+    monument,
+    latitude: location.latitude,
+    longitude: location.longitude,
+  };
+}
+
+/**
+ * 句碑をまとめて取得する。存在しない ID だけを除外し、それ以外の失敗は送出する
+ */
+async function fetchMonumentsByIds(ids: readonly number[]) {
+  const settled = await Promise.allSettled(
+    ids.map((id) => fetchMonumentById(id)),
+  );
+
+  const monuments: Monument[] = [];
+  const missingIds: number[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      monuments.push(result.value);
+    } else if (result.reason instanceof NotFoundError) {
+      missingIds.push(ids[index] as number);
+    } else {
+      throw result.reason;
+    }
+  });
+
+  return { monuments, missingIds };
+}
+
+const ItineraryOutputSchema = z.object({
+  start: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    label: z.string(),
+  }),
+  travel_mode: z.enum(["walking", "driving"]),
+  start_time: z.string(),
+  end_time: z.string(),
+  time_budget_minutes: z.number(),
+  used_minutes: z.number(),
+  dwell_minutes: z.number(),
+  total_distance_meters: z.number(),
+  return_to_start: z.boolean(),
+  stops: z.array(
+    z.object({
+      order: z.number(),
+      monument_id: z.number(),
+      canonical_name: z.string(),
+      poet_name: z.string().nullable(),
+      season: z.string().nullable(),
+      latitude: z.number(),
+      longitude: z.number(),
+      priority: z.number(),
+      distance_meters: z.number(),
+      travel_minutes: z.number(),
+      arrival_time: z.string(),
+      departure_time: z.string(),
+    }),
+  ),
+  skipped_count: z.number(),
+});
+
+function findMonumentSeason(monument: Monument): string | null {
+  for (const inscription of monument.inscriptions ?? []) {
+    const season = inscription.poems?.find((p) => p.season)?.season;
+    if (season) {
+      return season;
+    }
+  }
+  return null;
+}
+
+/**
+ * 俳人の希望順位と季節の一致から行程に組み込む優先度を算出する
+ *
+ * 俳人の一致は季節の一致より常に優先される。
+ */
+function scoreItineraryPriority(
+  monument: Monument,
+  preferredPoets: readonly string[],
+  season: string | undefined,
+): number {
+  let score = 0;
+
+  const poetRank = preferredPoets.findIndex((name) =>
+    findPoetByFlexibleName(monument.poets ?? [], name),
+  );
+  if (poetRank >= 0) {
+    score += (preferredPoets.length - poetRank) * 2;
+  }
+
+  if (
+    season &&
+    monument.inscriptions?.some((i) =>
+      i.poems?.some((p) => p.season === season),
+    )
+  ) {
+    score += 1;
+  }
+
+  return score;
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours = 0, minutes = 0] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatTimeOfDay(totalMinutes: number): string {
+  const rounded = Math.round(totalMinutes);
+  const dayMinutes = ((rounded % (24 * 60)) + 24 * 60) % (24 * 60);
+  const hours = Math.floor(dayMinutes / 60);
+  const minutes = dayMinutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.max(Math.round(minutes), 1);
+  if (rounded < 60) {
+    return `${rounded}分`;
+  }
+  return `${Math.floor(rounded / 60)}時間${rounded % 60}分`;
+}
+
+export function registerRouteTools(server: McpServer): void {
+  registerInstrumentedTool(
+    server,
+    "plan_monument_route",
+    {
+      description: `複数の句碑を効率よく巡る訪問順序（ルート）を計画します。
+
+このToolは以下のユーザーの意図に対応します：
+- 気になる句碑をまとめて巡る順番を決めたい
+- 俳人や地域で絞り込んだ句碑を1日で回りたい
+- 徒歩・車での移動距離や所要時間の目安を知りたい
+
+返却データ:
+- 訪問順序（最近傍法＋2-opt法で計算）
+- 区間ごとの距離と所要時間の目安
+- 総移動距離と総所要時間
+- ルートのGeoJSON LineString
+
+注意: 距離は直線距離に道のり係数を掛けた概算です。
+
+使用例:
+- 句碑ID 1, 5, 12 を桑名駅から徒歩で巡る順番
+- 三重県の松尾芭蕉の句碑を車で巡るルート`,
+      inputSchema: z.object({
+        monument_ids: z
+          .array(z.number())
+          .max(MAX_ROUTE_STOPS)
+          .optional()
+          .describe("巡る句碑IDの配列。指定しない場合は絞り込み条件で検索"),
+        poet_name: z
+          .string()
+          .optional()
+          .describe("俳人名（例: 松尾芭蕉、山口誓子）"),
+        region: z
+          .string()
+          .optional()
+          .describe("地域名（例: 東海、関東甲信、北陸）"),
+        season: z.string().optional().describe("季節（春/夏/秋/冬）"),
+        prefecture: z.string().optional().describe("都道府県名（例: 三重県）"),
+        municipality: z
+          .string()
+          .optional()
+          .describe("市区町村名（例: 伊勢市）"),
+        max_results: z
+          .number()
+          .min(1)
+          .max(MAX_ROUTE_STOPS)
+          .default(10)
+          .describe(
+            "絞り込み条件で検索する場合の最大件数（1-50、デフォルト: 10）",
+          ),
+        latitude: z
+          .number()
+          .min(-90)
+          .max(90)
+          .optional()
+          .describe("出発地点の緯度（-90〜90）"),
+        longitude: z
+          .number()
+          .min(-180)
+          .max(180)
+          .optional()
+          .describe("出発地点の経度（-180〜180）"),
+        place_query: z
+          .string()
+          .optional()
+          .describe("出発地点の地点名やランドマーク（例: 桑名駅）"),
+        travel_mode: z
+          .enum(["walking", "driving"])
+          .default("walking")
+          .describe("移動手段: walking=徒歩, driving=車"),
+      }),
+      outputSchema: RouteOutputSchema,
+    },
+    async (
+      {
+        monument_ids,
+        poet_name,
+        region,
+        season,
+        prefecture,
+        municipality,
+        max_results,
+        latitude,
+        longitude,
+        place_query,
+        travel_mode,
+      },
+      extra,
+    ) => {
+      try {
+        let monuments: Monument[];
+        let missingIds: number[] = [];
+
+        if (monument_ids && monument_ids.length > 0) {
+          ({ monuments, missingIds } = await fetchMonumentsByIds(
+            Array.from(new Set(monument_ids)),
+          ));
+        } else {
+          const found = await findMonumentsForTourism(
+            {
+              poet_name,
+              region,
+              season,
+              prefecture,
+              municipality,
+            },
+            new ToolProgress(extra).crawl(),
+          );
+          if (!found) {
+            throw new Error(
+              `俳人「${poet_name}」が見つかりませんでした。名前を確認してください。`,
+            );
+          }
+          monuments = found.slice(0, max_results);
+        }
+
+        const stops = monuments
+          .map(toRouteStop)
+          .filter((stop): stop is RouteStop => stop !== null);
+
+        if (stops.length === 0) {
+          throw new Error(
+            "座標の登録された句碑が見つかりませんでした。条件を変えて再検索してください。",
+          );
+        }
+
+        const hasStart =
+          latitude !== undefined ||
+          longitude !== undefined ||
+          Boolean(place_query);
+        const start: SearchCenter | null = hasStart
+          ? await resolveSearchCenter({
+              latitude,
+              longitude,
+              place_query,
+              prefecture,
+            })
+          : null;
+
+        const route = planRoute(stops, start);
+
+        let cumulative = 0;
+        const plannedStops = route.legs.map((leg, index) => {
+          cumulative += leg.distance;
+          return {
+            order: index + 1,
+            monument_id: leg.to.monument.id,
+            canonical_name: leg.to.monument.canonical_name,
+            latitude: leg.to.latitude,
+            longitude: leg.to.longitude,
+            leg_distance_meters: Math.round(leg.distance),
+            cumulative_distance_meters: Math.round(cumulative),
+            leg_minutes: Math.round(
+              estimateTravelMinutes(leg.distance, travel_mode),
+            ),
+          };
+        });
+
+        const estimatedMinutes = estimateTravelMinutes(
+          route.totalDistance,
+          travel_mode,
+        );
+
+        const coordinates = [
+          ...(start ? [[start.longitude, start.latitude] as const] : []),
+          ...route.stops.map(
+            (stop) => [stop.longitude, stop.latitude] as const,
+          ),
+        ];
+        const lineString: GeoJSONLineStringFeature = {
+          type: "Feature",
+          // LineString には2点以上が必要なため、出発地点の無い1か所だけのルートは geometry を null にする
+          geometry:
+            coordinates.length >= 2
+              ? { type: "LineString", coordinates }
+              : null,
+          properties: {
+            travel_mode,
+            total_distance_meters: Math.round(route.totalDistance),
+            monument_ids: route.stops.map((stop) => stop.monument.id),
+          },
+        };
+
+        const startDescription = start
+          ? (start.label ??
+            place_query ??
+            `緯度 ${start.latitude}, 経度 ${start.longitude}`)
+          : null;
+
+        const formatted = route.legs
+          .map((leg, index) => {
+            const m = leg.to.monument;
+            const poet = m.poets?.[0];
+            const location = m.locations?.[0];
+            const legText =
+              index === 0 && !start
+                ? "出発地点"
+                : `前の地点から ${formatDistance(leg.distance)}（${TRAVEL_MODE_LABELS[travel_mode]}約${formatMinutes(estimateTravelMinutes(leg.distance, travel_mode))}）`;
+
+            return `## ${index + 1}. ${m.canonical_name}（句碑ID: ${m.id}）
+
+**移動**: ${legText}
+**俳人**: ${poet?.name || "不明"}
+**場所**: ${location?.place_name || "不明"}（${location?.prefecture || ""}${location?.municipality || ""}）
+**座標**: ${leg.to.latitude}, ${leg.to.longitude}`;
+          })
+          .join("\n\n");
+
+        const notes = [
+          ...(missingIds.length > 0
+            ? [`- 見つからなかった句碑ID: ${missingIds.join(", ")}`]
+            : []),
+          ...(stops.length < monuments.length
+            ? [
+                `- 座標が未登録のため${monuments.length - stops.length}件の句碑を除外しました`,
+              ]
+            : []),
+          "- 距離は直線距離をもとにした概算です。実際の経路は地図アプリで確認してください",
+        ].join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# 句碑巡りルート（${route.stops.length}か所）
+
+${startDescription ? `出発地点: ${startDescription}\n` : ""}移動手段: ${TRAVEL_MODE_LABELS[travel_mode]}
+総移動距離: ${formatDistance(route.totalDistance)}
+所要時間の目安: ${formatMinutes(estimatedMinutes)}（見学時間を除く）
+
+${formatted}
+
+補足:
+${notes}`,
+            },
+          ],
+          structuredContent: {
+            travel_mode,
+            start: start
+              ? {
+                  latitude: start.latitude,
+                  longitude: start.longitude,
+                  label: startDescription,
+                }
+              : null,
+            stops: plannedStops,
+            total_distance_meters: Math.round(route.totalDistance),
+            estimated_minutes: Math.round(estimatedMinutes),
+            route: { ...lineString },
+          },
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  );
+
+  registerInstrumentedTool(
+    server,
+    "plan_day_trip_itinerary",
+    {
+      description: `出発地点・出発時刻・持ち時間から、句碑を巡る日帰りの行程表を作成します。
+
+このToolは以下のユーザーの意図に対応します：
+- 「桑名駅を10時に出発して4時間で回れる句碑」を知りたい
+- 好きな俳人の句碑や季節に合った句碑を優先して巡りたい
+- 各句碑への到着時刻と見学時間を含めた予定を立てたい
+
+返却データ:
+- 持ち時間に収まる句碑の訪問順序
+- 各句碑の到着・出発時刻と区間の移動時間
+- 行程全体の終了時刻と残り時間
+
+注意: 移動時間は直線距離に道のり係数を掛けた概算です。
+
+使用例:
+- 桑名駅から10:00出発、4時間、徒歩、松尾芭蕉を優先
+- 緯度35.0655、経度136.6922から車で6時間、17:00までに戻る`,
+      inputSchema: z.object({
+        latitude: z
+          .number()
+          .min(-90)
+          .max(90)
+          .optional()
+          .describe("出発地点の緯度（-90〜90）"),
+        longitude: z
+          .number()
+          .min(-180)
+          .max(180)
+          .optional()
+          .describe("出発地点の経度（-180〜180）"),
+        place_query: z
+          .string()
+          .optional()
+          .describe("出発地点の地点名やランドマーク（例: 桑名駅）"),
+        prefecture: z
+          .string()
+          .optional()
+          .describe("都道府県で絞り込み（例: 三重県）"),
+        start_time: z
+          .string()
+          .regex(TIME_OF_DAY_PATTERN)
+          .default("10:00")
+          .describe("出発時刻（HH:MM、デフォルト: 10:00）"),
+        end_time: z
+          .string()
+          .regex(TIME_OF_DAY_PATTERN)
+          .optional()
+          .describe(
+            "行程を終える時刻（HH:MM）。閉館時刻や帰りの列車に合わせる場合に指定",
+          ),
+        time_budget_minutes: z
+          .number()
+          .min(30)
+          .max(MAX_ITINERARY_MINUTES)
+          .default(240)
+          .describe("持ち時間（分、30-720、デフォルト: 240）"),
+        dwell_minutes: z
+          .number()
+          .min(0)
+          .max(120)
+          .default(15)
+          .describe("1か所あたりの見学時間（分、デフォルト: 15）"),
+        travel_mode: z
+          .enum(["walking", "driving"])
+          .default("walking")
+          .describe("移動手段: walking=徒歩, driving=車"),
+        return_to_start: z
+          .boolean()
+          .default(false)
+          .describe("出発地点へ戻る時間も持ち時間に含めるか"),
+        preferred_poets: z
+          .array(z.string())
+          .max(5)
+          .optional()
+          .describe("優先したい俳人名の配列（先頭ほど優先度が高い）"),
+        season: z.string().optional().describe("優先したい季節（春/夏/秋/冬）"),
+        radius_meters: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            "候補とする句碑の範囲（メートル）。省略時は持ち時間と移動手段から算出",
+          ),
+      }),
+      outputSchema: ItineraryOutputSchema,
+    },
+    async (
+      {
+        latitude,
+        longitude,
+        place_query,
+        prefecture,
+        start_time,
+        end_time,
+        time_budget_minutes,
+        dwell_minutes,
+        travel_mode,
+        return_to_start,
+        preferred_poets = [],
+        season,
+        radius_meters,
+      },
+      extra,
+    ) => {
+      try {
+        const center = await resolveSearchCenter({
+          latitude,
+          longitude,
+          place_query,
+          prefecture,
+        });
+        const targetPrefecture = center.prefecture;
+
+        const startMinutes = parseTimeOfDay(start_time);
+        let budgetMinutes = time_budget_minutes;
+        if (end_time) {
+          let untilEnd = parseTimeOfDay(end_time) - startMinutes;
+          if (untilEnd <= 0) {
+            untilEnd += 24 * 60;
+          }
+          budgetMinutes = Math.min(budgetMinutes, untilEnd);
+        }
+
+        // 片道で持ち時間の半分を使い切る距離を候補範囲の上限とする
+        const searchRadius =
+          radius_meters ??
+          ((budgetMinutes / 2) * TRAVEL_SPEED_METERS_PER_MINUTE[travel_mode]) /
+            ROUTE_DETOUR_FACTOR;
+
+        const index = await getMonumentSpatialIndex({ signal: extra.signal });
+        const nearby = index.nearest(
+          center.latitude,
+          center.longitude,
+          MAX_ITINERARY_CANDIDATES,
+          {
+            maxDistance: searchRadius,
+            ...(targetPrefecture
+              ? {
+                  filter: (monument: Monument) =>
+                    monument.locations?.some(
+                      (l) => l.prefecture === targetPrefecture,
+                    ) ?? false,
+                }
+              : {}),
+          },
+        );
+
+        const candidates = nearby
+          .map((item) => toRouteStop(item.monument))
+          .filter((stop): stop is RouteStop => stop !== null)
+          .map((stop) => ({
+            ...stop,
+            priority: scoreItineraryPriority(
+              stop.monument,
+              preferred_poets,
+              season,
+            ),
+          }));
+
+        const itinerary = planItinerary(candidates, center, {
+          budgetMinutes,
+          dwellMinutes: dwell_minutes,
+          mode: travel_mode,
+          returnToStart: return_to_start,
+        });
+
+        const centerDescription =
+          center.label ??
+          place_query ??
+          `緯度 ${center.latitude}, 経度 ${center.longitude}`;
+
+        const stops = itinerary.stops.map((stop, index) => {
+          const m = stop.point.monument;
+          return {
+            order: index + 1,
+            monument_id: m.id,
+            canonical_name: m.canonical_name,
+            poet_name: m.poets?.[0]?.name ?? null,
+            season: findMonumentSeason(m),
+            latitude: stop.point.latitude,
+            longitude: stop.point.longitude,
+            priority: stop.point.priority,
+            distance_meters: Math.round(stop.distance),
+            travel_minutes: Math.round(stop.travelMinutes),
+            arrival_time: formatTimeOfDay(startMinutes + stop.arrivalMinutes),
+            departure_time: formatTimeOfDay(
+              startMinutes + stop.departureMinutes,
+            ),
+          };
+        });
+
+        const structuredContent = {
+          start: {
+            latitude: center.latitude,
+            longitude: center.longitude,
+            label: centerDescription,
+          },
+          travel_mode,
+          start_time: formatTimeOfDay(startMinutes),
+          end_time: formatTimeOfDay(startMinutes + itinerary.totalMinutes),
+          time_budget_minutes: budgetMinutes,
+          used_minutes: Math.round(itinerary.totalMinutes),
+          dwell_minutes,
+          total_distance_meters: Math.round(itinerary.totalDistance),
+          return_to_start,
+          stops,
+          skipped_count: itinerary.skipped.length,
+        };
+
+        if (stops.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `出発地点（${centerDescription}）から持ち時間${formatMinutes(budgetMinutes)}で巡れる句碑は見つかりませんでした。\n\n持ち時間を延ばすか、移動手段や見学時間を見直して再検索してください。`,
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        const formatted = stops
+          .map(
+            (
+              stop,
+            ) => `## ${stop.arrival_time}〜${stop.departure_time} ${stop.canonical_name}（句碑ID: ${stop.monument_id}）
+
+**移動**: ${TRAVEL_MODE_LABELS[travel_mode]}約${formatMinutes(stop.travel_minutes)}（${formatDistance(stop.distance_meters)}）
+**俳人**: ${stop.poet_name ?? "不明"}
+**季節**: ${stop.season ?? "不明"}`,
+          )
+          .join("\n\n");
+
+        const returnLine = return_to_start
+          ? `\n## ${structuredContent.end_time} ${centerDescription}に帰着\n\n**移動**: ${TRAVEL_MODE_LABELS[travel_mode]}約${formatMinutes(itinerary.returnMinutes)}（${formatDistance(itinerary.returnDistance)}）\n`
+          : "";
+
+        const remaining = Math.max(
+          Math.floor(budgetMinutes - itinerary.totalMinutes),
+          0,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# 句碑巡り日帰り行程（${stops.length}か所）
+
+出発: ${structuredContent.start_time} ${centerDescription}
+移動手段: ${TRAVEL_MODE_LABELS[travel_mode]}／見学時間: 各${dwell_minutes}分
+持ち時間: ${formatMinutes(budgetMinutes)}（残り${remaining}分）
+総移動距離: ${formatDistance(itinerary.totalDistance)}
+
+${formatted}
+${returnLine}
+補足:
+- 時間内に組み込めなかった候補: ${itinerary.skipped.length}件
+- 移動時間は直線距離をもとにした概算です。実際の経路や交通機関の時刻は別途確認してください`,
+            },
+          ],
+          structuredContent,
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  );
+}
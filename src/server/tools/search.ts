@@ -2,7 +2,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchMonuments, fetchPoems } from "../../api.js";
 import { fetchMonumentById } from "../../api.js";
+import { MonumentSchema } from "../../schemas.js";
 import type { Monument } from "../../types.js";
+import { formatMonumentForDisplay } from "../../utils.js";
+import { describeToolError } from "./errors.js";
+import { registerInstrumentedTool } from "./instrumented-tool.js";
 
 async function fetchMonumentsSafely(ids: number[]): Promise<Monument[]> {
   if (ids.length === 0) {
@@ -145,7 +149,8 @@ async function fetchMonumentsByInscriptionTerms(
 }
 
 export function registerSearchTools(server: McpServer): void {
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "find_similar_monuments",
     {
       description: "類似の句碑を検索",
@@ -153,6 +158,10 @@ export function registerSearchTools(server: McpServer): void {
         searchText: z.string().describe("検索テキスト"),
         limit: z.number().optional().default(50).describe("取得件数"),
       }),
+      outputSchema: z.object({
+        total: z.number().describe("該当件数"),
+        monuments: z.array(MonumentSchema).describe("類似の句碑"),
+      }),
     },
     async ({ searchText, limit }) => {
       const max = limit ?? 50;
@@ -178,8 +187,7 @@ export function registerSearchTools(server: McpServer): void {
           const fallbackMonuments = await fetchMonuments({ limit: max });
           mergeMonuments(aggregatedMonuments, fallbackMonuments);
         } catch (error) {
-          const message =
-            error instanceof Error ? error.message : String(error);
+          const message = describeToolError(error);
           return {
             content: [
               {
@@ -210,9 +218,15 @@ export function registerSearchTools(server: McpServer): void {
         content: [
           {
             type: "text",
-            text: JSON.stringify(monuments, null, 2),
+            text: `# 類似の句碑（${monuments.length}件）\n\n${monuments
+              .map(formatMonumentForDisplay)
+              .join("\n\n")}`,
           },
         ],
+        structuredContent: {
+          total: monuments.length,
+          monuments,
+        },
       };
     },
   );
@@ -1,12 +1,18 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { fetchMonumentById, fetchPoets } from "../../api.js";
+import { getMonumentStore } from "../../monument-store.js";
+import { MonumentSchema, PoetSchema } from "../../schemas.js";
+import { getMonumentSpatialIndex } from "../../spatial-index.js";
+import type { Monument, Poet } from "../../types.js";
+import { computeMonumentStatistics } from "../../utils.js";
+import { toolErrorResult } from "./errors.js";
+import { registerInstrumentedTool } from "./instrumented-tool.js";
 import {
-  fetchAllMonuments,
-  fetchLocations,
-  fetchMonumentById,
-  fetchPoets,
-} from "../../api.js";
-import type { Location, Monument, SearchOptions } from "../../types.js";
+  findMonumentsForTourism,
+  resolveSearchCenter,
+} from "./monument-query.js";
+import { ToolProgress } from "./progress.js";
 
 function safeArrayAccess<T>(
   array: readonly T[] | undefined,
@@ -15,122 +21,55 @@ function safeArrayAccess<T>(
   return array && array.length > index ? array[index] : undefined;
 }
 
-interface ResolvedCoordinates {
-  readonly latitude: number;
-  readonly longitude: number;
-  readonly label?: string;
-  readonly prefecture?: string;
-  readonly municipality?: string;
-}
-
-function isFiniteNumber(value: unknown): value is number {
-  return typeof value === "number" && Number.isFinite(value);
-}
-
-function scoreLocationMatch(location: Location, query: string): number {
-  const normalizedQuery = query.replace(/\s+/gu, "");
-  let score = 0;
-
-  if (location.place_name) {
-    const place = location.place_name.replace(/\s+/gu, "");
-    if (place && normalizedQuery.includes(place)) {
-      score += 5;
-    }
-  }
-
-  if (location.address?.includes(query)) {
-    score += 3;
-  }
-
-  if (location.municipality && query.includes(location.municipality)) {
-    score += 2;
-  }
-
-  if (location.prefecture && query.includes(location.prefecture)) {
-    score += 1;
-  }
-
-  return score;
-}
-
-async function resolveCoordinatesFromQuery(
-  query: string,
-  prefecture?: string,
-): Promise<ResolvedCoordinates | null> {
-  const normalized = query.trim();
-  if (!normalized) {
-    return null;
-  }
-
-  const params: Partial<SearchOptions> = {
-    search: normalized,
-    limit: 10,
-  };
-
-  if (prefecture) {
-    params.prefecture = prefecture;
-  }
-
-  const candidates = await fetchLocations(params).catch(() => []);
-  const scored = candidates
-    .filter(
-      (location) =>
-        isFiniteNumber(location.latitude) && isFiniteNumber(location.longitude),
+const CountByNameSchema = z.record(z.string(), z.number());
+
+const MonumentListOutputSchema = z.object({
+  total: z.number().describe("条件に一致した句碑の総数"),
+  monuments: z.array(MonumentSchema).describe("句碑一覧"),
+});
+
+const NearbyMonumentsOutputSchema = z.object({
+  center: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    label: z.string().nullable(),
+  }),
+  radius_meters: z.number(),
+  monuments: z
+    .array(
+      z.object({
+        distance_meters: z.number(),
+        monument: MonumentSchema,
+      }),
     )
-    .map((location) => ({
-      location,
-      score: scoreLocationMatch(location, normalized),
-    }))
-    .sort((a, b) => b.score - a.score);
-
-  const best = scored[0];
-  if (!best || best.score <= 0) {
-    return null;
-  }
-
-  return {
-    latitude: best.location.latitude as number,
-    longitude: best.location.longitude as number,
-    ...(best.location.place_name || best.location.address
-      ? {
-          label:
-            best.location.place_name ?? best.location.address ?? normalized,
-        }
-      : {}),
-    ...(best.location.prefecture
-      ? { prefecture: best.location.prefecture }
-      : {}),
-    ...(best.location.municipality
-      ? { municipality: best.location.municipality }
-      : {}),
-  };
-}
-
-function normalizePoetText(value: string): string {
-  return value.replace(/[「」『』（）()【】\s・,，、]/gu, "").toLowerCase();
-}
-
-function findPoetByFlexibleName(
-  poets: readonly { name: string; id: number }[],
-  query: string,
-) {
-  const normalizedQuery = normalizePoetText(query);
-  if (!normalizedQuery) {
-    return undefined;
-  }
-
-  return poets.find((poet) => {
-    const normalizedName = normalizePoetText(poet.name);
-    return (
-      normalizedName === normalizedQuery ||
-      normalizedName.includes(normalizedQuery) ||
-      normalizedQuery.includes(normalizedName)
-    );
-  });
-}
+    .describe("周辺の句碑一覧（距離順）"),
+});
+
+const MonumentStatisticsOutputSchema = z.object({
+  total: z.number(),
+  byPrefecture: CountByNameSchema,
+  byRegion: CountByNameSchema,
+  byPoet: CountByNameSchema,
+  bySeason: CountByNameSchema,
+});
+
+const PoetComparisonOutputSchema = z.object({
+  poets: z.array(
+    z.object({
+      name: z.string(),
+      poet: PoetSchema.nullable(),
+      monumentCount: z.number(),
+      seasonDistribution: CountByNameSchema,
+      prefectures: CountByNameSchema,
+      topKigo: z.array(z.string()),
+      biography: z.string().optional(),
+    }),
+  ),
+});
 
 export function registerTourismTools(server: McpServer): void {
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "explore_monuments_for_tourism",
     {
       description: `観光向けの句碑探索を支援します。
@@ -169,61 +108,32 @@ export function registerTourismTools(server: McpServer): void {
           .default(10)
           .describe("最大取得件数（1-50、デフォルト: 10）"),
       }),
+      outputSchema: MonumentListOutputSchema,
     },
-    async ({
-      poet_name,
-      region,
-      season,
-      prefecture,
-      municipality,
-      max_results,
-    }) => {
-      let results: Monument[] = [];
-      if (poet_name) {
-        const allPoets = await fetchPoets();
-        const poet = findPoetByFlexibleName(allPoets, poet_name);
-        if (!poet) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `俳人「${poet_name}」が見つかりませんでした。名前を確認してください。`,
-              },
-            ],
-          };
-        }
-        results = await fetchAllMonuments({ poet_id: poet.id });
-      } else {
-        results = await fetchAllMonuments();
-      }
-
-      let filtered = results;
-
-      // 都道府県フィルタ
-      if (prefecture) {
-        filtered = filtered.filter((m) =>
-          m.locations?.some((l) => l.prefecture === prefecture),
-        );
-      }
-      // 地域フィルタ
-      if (region) {
-        filtered = filtered.filter((m) =>
-          m.locations?.some((l) => l.region === region),
-        );
-      }
-      // 市区町村フィルタ
-      if (municipality) {
-        filtered = filtered.filter((m) =>
-          m.locations?.some((l) => l.municipality?.includes(municipality)),
-        );
-      }
-      // 季節フィルタ
-      if (season) {
-        filtered = filtered.filter((m) =>
-          m.inscriptions?.some((i) =>
-            i.poems?.some((p) => p.season === season),
-          ),
-        );
+    async (
+      { poet_name, region, season, prefecture, municipality, max_results },
+      extra,
+    ) => {
+      const filtered = await findMonumentsForTourism(
+        {
+          poet_name,
+          region,
+          season,
+          prefecture,
+          municipality,
+        },
+        new ToolProgress(extra).crawl(),
+      );
+      if (!filtered) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `俳人「${poet_name}」が見つかりませんでした。名前を確認してください。`,
+            },
+          ],
+          structuredContent: { total: 0, monuments: [] },
+        };
       }
 
       const limited =
@@ -239,6 +149,7 @@ export function registerTourismTools(server: McpServer): void {
               text: "指定された条件に一致する句碑が見つかりませんでした。",
             },
           ],
+          structuredContent: { total: 0, monuments: [] },
         };
       }
 
@@ -277,11 +188,13 @@ export function registerTourismTools(server: McpServer): void {
             text: `# 観光向け句碑情報（${filtered.length}件）\n\n${formatted}\n\n観光のヒント:\n- 地図アプリで座標を検索すると正確な場所がわかります\n- 複数の句碑を巡る場合は、地域ごとにまとめると効率的です\n- 季節の句碑を訪れると、その情景をより深く感じられます`,
           },
         ],
+        structuredContent: { total: filtered.length, monuments: limited },
       };
     },
   );
 
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "learn_about_monument",
     {
       description: `特定の句碑について深く理解するための詳細情報を提供します。
@@ -309,6 +222,9 @@ export function registerTourismTools(server: McpServer): void {
             "句碑ID（数値）。IDが不明な場合は explore_monuments_for_tourism で先に検索してください",
           ),
       }),
+      outputSchema: z.object({
+        monument: MonumentSchema,
+      }),
     },
     async ({ monument_id }) => {
       const monument = await fetchMonumentById(monument_id);
@@ -408,11 +324,13 @@ ${source.url ? `- **URL**: ${source.url}` : ""}
             text: formatted,
           },
         ],
+        structuredContent: { monument },
       };
     },
   );
 
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "discover_nearby_monuments",
     {
       description: `現在地や指定した場所の周辺にある句碑を発見します。
@@ -454,118 +372,72 @@ ${source.url ? `- **URL**: ${source.url}` : ""}
         prefecture: z
           .string()
           .optional()
-          .describe(
-            "都道府県で絞り込み（例: 三重県）。指定すると検索が高速化されます",
-          ),
+          .describe("都道府県で絞り込み（例: 三重県）"),
         place_query: z
           .string()
           .optional()
           .describe("地点名やランドマーク（例: 金沢駅、兼六園）"),
       }),
+      outputSchema: NearbyMonumentsOutputSchema,
     },
-    async ({
-      latitude,
-      longitude,
-      radius_meters = 1000,
-      max_results = 5,
-      prefecture,
-      place_query,
-    }) => {
+    async (
+      {
+        latitude,
+        longitude,
+        radius_meters = 1000,
+        max_results = 5,
+        prefecture,
+        place_query,
+      },
+      extra,
+    ) => {
       try {
-        let centerLatitude = latitude;
-        let centerLongitude = longitude;
-        let resolvedLabel: string | undefined;
-
-        if (
-          (!isFiniteNumber(centerLatitude) ||
-            !isFiniteNumber(centerLongitude)) &&
-          place_query
-        ) {
-          const resolved = await resolveCoordinatesFromQuery(
-            place_query,
-            prefecture,
-          );
-          if (resolved) {
-            centerLatitude = resolved.latitude;
-            centerLongitude = resolved.longitude;
-            resolvedLabel = resolved.label;
-            prefecture = prefecture ?? resolved.prefecture ?? prefecture;
-          } else {
-            throw new Error(
-              `指定された場所「${place_query}」を特定できませんでした。緯度・経度を直接入力してください。`,
-            );
-          }
-        }
-
-        if (
-          !isFiniteNumber(centerLatitude) ||
-          !isFiniteNumber(centerLongitude)
-        ) {
-          throw new Error(
-            "緯度・経度、もしくは地点名(place_query)を指定してください",
-          );
-        }
+        const center = await resolveSearchCenter({
+          latitude,
+          longitude,
+          place_query,
+          prefecture,
+        });
+        const centerLatitude = center.latitude;
+        const centerLongitude = center.longitude;
+        const resolvedLabel = center.label;
+        const targetPrefecture = center.prefecture;
 
-        if (centerLatitude < -90 || centerLatitude > 90) {
-          throw new Error("緯度は-90から90の範囲で指定してください");
-        }
-        if (centerLongitude < -180 || centerLongitude > 180) {
-          throw new Error("経度は-180から180の範囲で指定してください");
-        }
         if (radius_meters <= 0) {
           throw new Error("半径は正の数で指定してください");
         }
 
-        const fetchOptions = prefecture ? { prefecture } : undefined;
-        const allMonuments = await fetchAllMonuments(fetchOptions);
-
-        const toRadians = (deg: number) => (deg * Math.PI) / 180;
-        const EARTH_RADIUS = 6371000;
-
-        interface MonumentWithDistance {
-          monument: Monument;
-          distance: number;
-        }
+        const index = await getMonumentSpatialIndex({ signal: extra.signal });
+        const limited = index.nearest(
+          centerLatitude,
+          centerLongitude,
+          max_results,
+          {
+            maxDistance: radius_meters,
+            ...(targetPrefecture
+              ? {
+                  filter: (monument: Monument) =>
+                    monument.locations?.some(
+                      (l) => l.prefecture === targetPrefecture,
+                    ) ?? false,
+                }
+              : {}),
+          },
+        );
 
-        const calculateDistance = (
-          lat1: number,
-          lon1: number,
-          lat2: number,
-          lon2: number,
-        ): number => {
-          const dLat = toRadians(lat2 - lat1);
-          const dLon = toRadians(lon2 - lon1);
-          const a =
-            Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.cos(toRadians(lat1)) *
-              Math.cos(toRadians(lat2)) *
-              Math.sin(dLon / 2) *
-              Math.sin(dLon / 2);
-          const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-          return EARTH_RADIUS * c;
+        const structuredContent = {
+          center: {
+            latitude: centerLatitude,
+            longitude: centerLongitude,
+            label: resolvedLabel ?? place_query ?? null,
+          },
+          radius_meters,
+          monuments: limited.map((item) => ({
+            distance_meters: Math.round(item.distance),
+            monument: item.monument,
+          })),
         };
 
-        const nearby: MonumentWithDistance[] = [];
-        for (const monument of allMonuments) {
-          const location = safeArrayAccess(monument.locations, 0);
-          if (!location?.latitude || !location?.longitude) continue;
-
-          const distance = calculateDistance(
-            centerLatitude,
-            centerLongitude,
-            location.latitude,
-            location.longitude,
-          );
-
-          if (distance <= radius_meters) {
-            nearby.push({ monument, distance });
-          }
-        }
-
-        nearby.sort((a, b) => a.distance - b.distance);
-
-        const limited = nearby.slice(0, max_results);
-
         if (limited.length === 0) {
           const centerDescription =
             resolvedLabel ??
@@ -579,6 +451,7 @@ ${source.url ? `- **URL**: ${source.url}` : ""}
                 text: `指定された地点（${centerDescription}）から半径${radius_meters}m以内に句碑は見つかりませんでした。\n\n半径を広げて再検索してください。`,
               },
             ],
+            structuredContent,
           };
         }
 
@@ -627,23 +500,16 @@ ${formatted}
 - 近い順に並んでいるので、効率的に巡ることができます`,
             },
           ],
+          structuredContent,
         };
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `エラー: ${errorMessage}`,
-            },
-          ],
-        };
+        return toolErrorResult(error);
       }
     },
   );
 
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "analyze_monuments_statistics",
     {
       description: `句碑データベースの包括的な統計分析を提供します。
@@ -671,38 +537,15 @@ ${formatted}
           .default("summary")
           .describe("表示形式: summary=要約, detailed=詳細"),
       }),
+      outputSchema: MonumentStatisticsOutputSchema,
     },
-    async ({ format }) => {
-      const monuments = await fetchAllMonuments();
-
-      const byPrefecture: Record<string, number> = {};
-      const byRegion: Record<string, number> = {};
-      const byPoet: Record<string, number> = {};
-      const bySeason: Record<string, number> = {};
-
-      for (const monument of monuments) {
-        const location = safeArrayAccess(monument.locations, 0);
-        const poet = safeArrayAccess(monument.poets, 0);
-        const inscription = safeArrayAccess(monument.inscriptions, 0);
-        const poem = safeArrayAccess(inscription?.poems, 0);
-
-        if (location?.prefecture) {
-          byPrefecture[location.prefecture] =
-            (byPrefecture[location.prefecture] || 0) + 1;
-        }
-
-        if (location?.region) {
-          byRegion[location.region] = (byRegion[location.region] || 0) + 1;
-        }
-
-        if (poet?.name) {
-          byPoet[poet.name] = (byPoet[poet.name] || 0) + 1;
-        }
+    async ({ format }, extra) => {
+      const monuments = await getMonumentStore().all(
+        new ToolProgress(extra).crawl(),
+      );
 
-        if (poem?.season) {
-          bySeason[poem.season] = (bySeason[poem.season] || 0) + 1;
-        }
-      }
+      const statistics = computeMonumentStatistics(monuments);
+      const { byPrefecture, byRegion, byPoet, bySeason } = statistics;
 
       const sortedPrefectures = Object.entries(byPrefecture)
         .sort(([, a], [, b]) => b - a)
@@ -745,6 +588,7 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
 
         return {
           content: [{ type: "text", text: summary }],
+          structuredContent: { ...statistics },
         };
       }
 
@@ -782,11 +626,13 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
 
       return {
         content: [{ type: "text", text: detailed }],
+        structuredContent: { ...statistics },
       };
     },
   );
 
-  server.registerTool(
+  registerInstrumentedTool(
+    server,
     "compare_poets_styles",
     {
       description: `複数の俳人の作風や特徴を比較分析します。
@@ -815,11 +661,14 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
           .max(5)
           .describe("比較する俳人名の配列（2-5名）"),
       }),
+      outputSchema: PoetComparisonOutputSchema,
     },
-    async ({ poet_names }) => {
+    async ({ poet_names }, extra) => {
+      const progress = new ToolProgress(extra);
       const allPoets = await fetchPoets();
       const results: Array<{
         name: string;
+        poet: Poet | null;
         monumentCount: number;
         seasonDistribution: Record<string, number>;
         prefectures: Record<string, number>;
@@ -832,6 +681,7 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
         if (!poet) {
           results.push({
             name: poetName,
+            poet: null,
             monumentCount: 0,
             seasonDistribution: {},
             prefectures: {},
@@ -841,7 +691,11 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
           continue;
         }
 
-        const poetMonuments = await fetchAllMonuments({ poet_id: poet.id });
+        const poetMonuments = await getMonumentStore().query(
+          { poet_id: poet.id },
+          undefined,
+          progress.crawl(`${poet.name}の句碑`),
+        );
 
         const seasonDist: Record<string, number> = {};
         const prefDist: Record<string, number> = {};
@@ -879,6 +733,7 @@ ${sortedSeasons.map(([season, count]) => `- ${season}: ${count}基`).join("\n")}
 
         results.push({
           name: poet.name,
+          poet,
           monumentCount: poetMonuments.length,
           seasonDistribution: seasonDist,
           prefectures: prefDist,
@@ -949,6 +804,7 @@ ${results
 
       return {
         content: [{ type: "text", text: comparison }],
+        structuredContent: { poets: results },
       };
     },
   );
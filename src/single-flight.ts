@@ -0,0 +1,94 @@
+import { SharedLogScope } from "./logger.js";
+
+interface Flight {
+  readonly promise: Promise<unknown>;
+  readonly controller: AbortController;
+  readonly logs: SharedLogScope;
+  waiters: number;
+}
+
+/**
+ * 同じキーの処理が実行中であれば新たに開始せず、その結果（またはエラー）を共有する
+ *
+ * 呼び出し元ごとの `signal` で中断できるのは自分の待機だけで、共有している処理は
+ * 待っている呼び出し元がすべて中断したときにだけ中断する。共有している処理のログは
+ * 最初の呼び出し元のログコンテキストではなく、待っている呼び出し元それぞれの出力先に渡す。
+ */
+export class SingleFlight {
+  private readonly flights = new Map<string, Flight>();
+
+  /** 実行中の処理があるか（`run` がその処理に合流するか） */
+  has(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  get size(): number {
+    return this.flights.size;
+  }
+
+  run<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    signal?.throwIfAborted();
+
+    let flight = this.flights.get(key);
+    let leaveLogs: () => void;
+    if (!flight) {
+      const controller = new AbortController();
+      const logs = new SharedLogScope();
+      // 処理が同期的に出力するログも受け取れるよう、開始する前に参加する
+      leaveLogs = logs.join();
+      const started: Flight = {
+        controller,
+        logs,
+        waiters: 0,
+        promise: logs
+          .run(() => task(controller.signal))
+          .finally(() => {
+            if (this.flights.get(key) === started) {
+              this.flights.delete(key);
+            }
+          }),
+      };
+      // 待っている呼び出し元がすべて中断した後の失敗は誰も受け取らない
+      started.promise.catch(() => {});
+      this.flights.set(key, started);
+      flight = started;
+    } else {
+      leaveLogs = flight.logs.join();
+    }
+    flight.waiters += 1;
+
+    const current = flight;
+    if (!signal) {
+      return (current.promise as Promise<T>).finally(leaveLogs);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        leaveLogs();
+        this.leave(key, current, signal.reason);
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      (current.promise as Promise<T>).then(resolve, reject).finally(() => {
+        leaveLogs();
+        signal.removeEventListener("abort", onAbort);
+      });
+    });
+  }
+
+  private leave(key: string, flight: Flight, reason: unknown): void {
+    flight.waiters -= 1;
+    if (flight.waiters > 0) {
+      return;
+    }
+    // 中断された処理に後から合流しないよう、先に取り除く
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+    flight.controller.abort(reason);
+  }
+}
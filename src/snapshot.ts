@@ -0,0 +1,262 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import {
+  fetchAllMonuments,
+  fetchInscriptions,
+  fetchLocations,
+  fetchPoems,
+  fetchPoets,
+  fetchSources,
+  setOfflineSnapshot,
+} from "./api.js";
+import { CONFIG, ENDPOINTS } from "./config.js";
+import { logger } from "./logger.js";
+import {
+  InscriptionsResponseSchema,
+  LocationsResponseSchema,
+  MonumentsResponseSchema,
+  PoemsResponseSchema,
+  PoetsResponseSchema,
+  SourcesResponseSchema,
+} from "./schemas.js";
+import type {
+  InscriptionsResponse,
+  Location,
+  Monument,
+  PoemsResponse,
+  Poet,
+  SearchOptions,
+  Source,
+} from "./types.js";
+
+const log = logger.child({ module: "snapshot" });
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+const SNAPSHOT_FILE_PREFIX = "kuhi-snapshot-";
+const SNAPSHOT_FILE_EXTENSION = ".json";
+const CRAWL_BATCH_SIZE = CONFIG.MAX_LIMIT;
+const CRAWL_MAX_OFFSET = 100000;
+
+export interface SnapshotCollections {
+  readonly monuments: Monument[];
+  readonly poets: Poet[];
+  readonly sources: Source[];
+  readonly locations: Location[];
+  readonly poems: PoemsResponse["poems"];
+  readonly inscriptions: InscriptionsResponse["inscriptions"];
+}
+
+/**
+ * オフライン利用のためのデータセット一式
+ */
+export interface SnapshotBundle {
+  readonly format_version: number;
+  readonly created_at: string;
+  readonly api_base_url: string;
+  readonly collections: SnapshotCollections;
+}
+
+const SnapshotBundleSchema = z.object({
+  format_version: z.number(),
+  created_at: z.string(),
+  api_base_url: z.string(),
+  collections: z.object({
+    monuments: MonumentsResponseSchema,
+    poets: PoetsResponseSchema,
+    sources: SourcesResponseSchema,
+    locations: LocationsResponseSchema,
+    poems: PoemsResponseSchema.shape.poems,
+    inscriptions: InscriptionsResponseSchema.shape.inscriptions,
+  }),
+});
+
+type CollectionName = keyof SnapshotCollections;
+
+const COLLECTION_ENDPOINTS: {
+  readonly [K in CollectionName]: (typeof ENDPOINTS)[keyof typeof ENDPOINTS];
+} = {
+  monuments: ENDPOINTS.MONUMENTS,
+  inscriptions: ENDPOINTS.INSCRIPTIONS,
+  poems: ENDPOINTS.POEMS,
+  poets: ENDPOINTS.POETS,
+  sources: ENDPOINTS.SOURCES,
+  locations: ENDPOINTS.LOCATIONS,
+};
+
+async function crawlCollection<T extends { id: number }>(
+  name: CollectionName,
+  fetchPage: (options: Partial<SearchOptions>) => Promise<T[]>,
+): Promise<T[]> {
+  const records: T[] = [];
+  const seenIds = new Set<number>();
+
+  for (let offset = 0; ; offset += CRAWL_BATCH_SIZE) {
+    if (offset > CRAWL_MAX_OFFSET) {
+      log.warn(
+        "巡回の上限に達したため、以降のレコードはスナップショットに含まれません",
+        {
+          endpoint: COLLECTION_ENDPOINTS[name],
+          records: records.length,
+          max_offset: CRAWL_MAX_OFFSET,
+        },
+      );
+      break;
+    }
+    const batch = await fetchPage({ limit: CRAWL_BATCH_SIZE, offset });
+    for (const record of batch) {
+      if (!seenIds.has(record.id)) {
+        records.push(record);
+        seenIds.add(record.id);
+      }
+    }
+    if (batch.length < CRAWL_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return records;
+}
+
+const COLLECTION_CRAWLERS: {
+  readonly [K in CollectionName]: () => Promise<SnapshotCollections[K]>;
+} = {
+  monuments: () => fetchAllMonuments(),
+  inscriptions: () => crawlCollection("inscriptions", fetchInscriptions),
+  poems: () => crawlCollection("poems", fetchPoems),
+  poets: () => crawlCollection("poets", fetchPoets),
+  sources: () => crawlCollection("sources", fetchSources),
+  locations: () => crawlCollection("locations", fetchLocations),
+};
+
+function snapshotCollection<K extends CollectionName>(
+  name: K,
+): Promise<SnapshotCollections[K]> {
+  log.info(`スナップショット取得中: ${COLLECTION_ENDPOINTS[name]}`);
+  return COLLECTION_CRAWLERS[name]();
+}
+
+/**
+ * ENDPOINTS の全エンドポイントを巡回してスナップショットを作成する
+ */
+export async function createSnapshot(): Promise<SnapshotBundle> {
+  const collections: SnapshotCollections = {
+    monuments: await snapshotCollection("monuments"),
+    inscriptions: await snapshotCollection("inscriptions"),
+    poems: await snapshotCollection("poems"),
+    poets: await snapshotCollection("poets"),
+    sources: await snapshotCollection("sources"),
+    locations: await snapshotCollection("locations"),
+  };
+
+  return {
+    format_version: SNAPSHOT_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    api_base_url: CONFIG.API_BASE_URL,
+    collections,
+  };
+}
+
+export function getSnapshotFileName(createdAt: string): string {
+  const stamp = createdAt.replace(/[-:]/gu, "").replace(/\.\d+Z$/u, "Z");
+  return `${SNAPSHOT_FILE_PREFIX}${stamp}${SNAPSHOT_FILE_EXTENSION}`;
+}
+
+/**
+ * スナップショットを書き出す。ディレクトリを指定した場合は作成日時入りのファイル名で保存する
+ */
+export async function writeSnapshot(
+  bundle: SnapshotBundle,
+  outputPath: string,
+): Promise<string> {
+  const isDirectory =
+    !outputPath.endsWith(SNAPSHOT_FILE_EXTENSION) ||
+    (await fs.stat(outputPath).catch(() => null))?.isDirectory() === true;
+  const filePath = isDirectory
+    ? path.join(outputPath, getSnapshotFileName(bundle.created_at))
+    : outputPath;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(bundle), "utf8");
+  return filePath;
+}
+
+async function resolveSnapshotPath(snapshotPath: string): Promise<string> {
+  const stat = await fs.stat(snapshotPath);
+  if (!stat.isDirectory()) {
+    return snapshotPath;
+  }
+
+  const latest = (await fs.readdir(snapshotPath))
+    .filter(
+      (name) =>
+        name.startsWith(SNAPSHOT_FILE_PREFIX) &&
+        name.endsWith(SNAPSHOT_FILE_EXTENSION),
+    )
+    .sort()
+    .at(-1);
+
+  if (!latest) {
+    throw new Error(`No snapshot bundle found in ${snapshotPath}`);
+  }
+
+  return path.join(snapshotPath, latest);
+}
+
+/**
+ * スナップショットを読み込む。ディレクトリを指定した場合は最新のファイルを使用する
+ *
+ * 内容が API のスキーマに一致しない場合は、ファイル名を含むエラーを送出する。
+ */
+export async function readSnapshot(
+  snapshotPath: string,
+): Promise<SnapshotBundle> {
+  const filePath = await resolveSnapshotPath(snapshotPath);
+  let content: unknown;
+  try {
+    content = JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid snapshot bundle ${filePath}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const result = SnapshotBundleSchema.safeParse(content);
+  if (!result.success) {
+    throw new Error(
+      `Invalid snapshot bundle ${filePath}: ${result.error.issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  const bundle: SnapshotBundle = result.data;
+  if (bundle.format_version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot format version: ${bundle.format_version} (expected ${SNAPSHOT_FORMAT_VERSION})`,
+    );
+  }
+
+  return bundle;
+}
+
+/**
+ * `KUHI_OFFLINE_SNAPSHOT` が指定されていればスナップショットを読み込み、オフラインモードを有効にする
+ */
+export async function enableOfflineSnapshotFromEnv(): Promise<SnapshotBundle | null> {
+  // biome-ignore lint/complexity/useLiteralKeys: process.env requires bracket notation for strict TypeScript
+  const snapshotPath = process.env["KUHI_OFFLINE_SNAPSHOT"];
+  if (!snapshotPath) {
+    return null;
+  }
+
+  const bundle = await readSnapshot(path.resolve(snapshotPath));
+  setOfflineSnapshot(bundle);
+  log.info(
+    `オフラインスナップショットを使用します（作成日時: ${bundle.created_at}）`,
+  );
+  return bundle;
+}
@@ -0,0 +1,254 @@
+import type { RequestOptions } from "./api.js";
+import { type MonumentStore, getMonumentStore } from "./monument-store.js";
+import type { Monument } from "./types.js";
+import { calculateDistance } from "./utils.js";
+
+const DEFAULT_CELL_SIZE_DEGREES = 0.05; // 約5.5km
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+interface IndexedMonument {
+  readonly monument: Monument;
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
+export interface MonumentWithDistance {
+  readonly monument: Monument;
+  readonly distance: number;
+}
+
+export interface NearestQueryOptions {
+  readonly maxDistance?: number;
+  readonly filter?: (monument: Monument) => boolean;
+}
+
+/**
+ * 句碑の設置場所を緯度経度のグリッドで分割した空間インデックス
+ *
+ * 半径検索は円を含むセルのみ、k近傍検索は中心セルから外側へ広げながら
+ * 候補を走査するため、全件を毎回走査する必要がない。
+ */
+export class MonumentSpatialIndex {
+  private readonly cells = new Map<string, IndexedMonument[]>();
+  private minRow = Number.POSITIVE_INFINITY;
+  private maxRow = Number.NEGATIVE_INFINITY;
+  private minColumn = Number.POSITIVE_INFINITY;
+  private maxColumn = Number.NEGATIVE_INFINITY;
+  private count = 0;
+
+  constructor(
+    monuments: readonly Monument[],
+    private readonly cellSize = DEFAULT_CELL_SIZE_DEGREES,
+  ) {
+    for (const monument of monuments) {
+      const location = monument.locations?.[0];
+      if (location?.latitude == null || location.longitude == null) continue;
+
+      const row = this.rowOf(location.latitude);
+      const column = this.columnOf(location.longitude);
+      const key = cellKey(row, column);
+      const bucket = this.cells.get(key) ?? [];
+      bucket.push({
+        monument,
+        latitude: location.latitude,
+        longitude: location.longitude,
+      });
+      this.cells.set(key, bucket);
+
+      this.minRow = Math.min(this.minRow, row);
+      this.maxRow = Math.max(this.maxRow, row);
+      this.minColumn = Math.min(this.minColumn, column);
+      this.maxColumn = Math.max(this.maxColumn, column);
+      this.count++;
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * 指定地点から半径 `radius` メートル以内の句碑を距離順に返す
+   */
+  withinRadius(
+    latitude: number,
+    longitude: number,
+    radius: number,
+    filter?: (monument: Monument) => boolean,
+  ): MonumentWithDistance[] {
+    if (this.count === 0) {
+      return [];
+    }
+
+    const latitudeDelta = radius / METERS_PER_DEGREE_LATITUDE;
+    const longitudeDelta =
+      radius /
+      (METERS_PER_DEGREE_LATITUDE *
+        cosineOf(Math.abs(latitude) + latitudeDelta));
+
+    const rowStart = Math.max(
+      this.rowOf(latitude - latitudeDelta),
+      this.minRow,
+    );
+    const rowEnd = Math.min(this.rowOf(latitude + latitudeDelta), this.maxRow);
+    const columnStart = Math.max(
+      this.columnOf(longitude - longitudeDelta),
+      this.minColumn,
+    );
+    const columnEnd = Math.min(
+      this.columnOf(longitude + longitudeDelta),
+      this.maxColumn,
+    );
+
+    const results: MonumentWithDistance[] = [];
+    for (let row = rowStart; row <= rowEnd; row++) {
+      for (let column = columnStart; column <= columnEnd; column++) {
+        for (const entry of this.cells.get(cellKey(row, column)) ?? []) {
+          if (filter && !filter(entry.monument)) continue;
+
+          const distance = calculateDistance(
+            latitude,
+            longitude,
+            entry.latitude,
+            entry.longitude,
+          );
+          if (distance <= radius) {
+            results.push({ monument: entry.monument, distance });
+          }
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * 指定地点に近い順に最大 `k` 件の句碑を返す
+   */
+  nearest(
+    latitude: number,
+    longitude: number,
+    k: number,
+    options: NearestQueryOptions = {},
+  ): MonumentWithDistance[] {
+    if (this.count === 0 || k <= 0) {
+      return [];
+    }
+
+    const { maxDistance = Number.POSITIVE_INFINITY, filter } = options;
+    const centerRow = this.rowOf(latitude);
+    const centerColumn = this.columnOf(longitude);
+    const cellHeight = this.cellSize * METERS_PER_DEGREE_LATITUDE;
+    const farthestLatitude = Math.max(
+      Math.abs(latitude),
+      Math.abs(this.minRow * this.cellSize),
+      Math.abs((this.maxRow + 1) * this.cellSize),
+    );
+    const cellWidth = cellHeight * cosineOf(farthestLatitude);
+    const minCellSpan = Math.max(Math.min(cellHeight, cellWidth), 1);
+    const maxRing = Math.max(
+      Math.abs(centerRow - this.minRow),
+      Math.abs(centerRow - this.maxRow),
+      Math.abs(centerColumn - this.minColumn),
+      Math.abs(centerColumn - this.maxColumn),
+    );
+
+    const candidates: MonumentWithDistance[] = [];
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (const key of ringKeys(centerRow, centerColumn, ring)) {
+        for (const entry of this.cells.get(key) ?? []) {
+          if (filter && !filter(entry.monument)) continue;
+
+          const distance = calculateDistance(
+            latitude,
+            longitude,
+            entry.latitude,
+            entry.longitude,
+          );
+          if (distance <= maxDistance) {
+            candidates.push({ monument: entry.monument, distance });
+          }
+        }
+      }
+
+      // 次のリング以降のセルは中心から少なくとも ring * minCellSpan 離れている
+      const guaranteedDistance = ring * minCellSpan;
+      if (guaranteedDistance > maxDistance) {
+        break;
+      }
+      if (candidates.length >= k) {
+        candidates.sort((a, b) => a.distance - b.distance);
+        const kth = candidates[k - 1];
+        if (kth && kth.distance <= guaranteedDistance) {
+          break;
+        }
+      }
+    }
+
+    return candidates.sort((a, b) => a.distance - b.distance).slice(0, k);
+  }
+
+  private rowOf(latitude: number): number {
+    return Math.floor(latitude / this.cellSize);
+  }
+
+  private columnOf(longitude: number): number {
+    return Math.floor(longitude / this.cellSize);
+  }
+}
+
+function cosineOf(latitude: number): number {
+  return Math.max(Math.cos((Math.min(latitude, 90) * Math.PI) / 180), 0.01);
+}
+
+function cellKey(row: number, column: number): string {
+  return `${row}:${column}`;
+}
+
+function ringKeys(row: number, column: number, ring: number): string[] {
+  if (ring === 0) {
+    return [cellKey(row, column)];
+  }
+
+  const keys: string[] = [];
+  for (let offset = -ring; offset <= ring; offset++) {
+    keys.push(cellKey(row - ring, column + offset));
+    keys.push(cellKey(row + ring, column + offset));
+  }
+  for (let offset = -ring + 1; offset <= ring - 1; offset++) {
+    keys.push(cellKey(row + offset, column - ring));
+    keys.push(cellKey(row + offset, column + ring));
+  }
+  return keys;
+}
+
+let currentIndex: {
+  readonly index: MonumentSpatialIndex;
+  readonly store: MonumentStore;
+  readonly version: number;
+} | null = null;
+
+/**
+ * 句碑ストアのすべての句碑から構築した空間インデックスを返す
+ *
+ * 必要であれば句碑ストアを同期し、保持している句碑が変わっていればインデックスを再構築する。
+ */
+export async function getMonumentSpatialIndex(
+  options: RequestOptions = {},
+): Promise<MonumentSpatialIndex> {
+  const store = getMonumentStore();
+  const monuments = await store.all(options);
+  if (currentIndex?.store !== store || currentIndex.version !== store.version) {
+    currentIndex = {
+      index: new MonumentSpatialIndex(monuments),
+      store,
+      version: store.version,
+    };
+  }
+  return currentIndex.index;
+}
+
+export function invalidateMonumentSpatialIndex(): void {
+  currentIndex = null;
+}
@@ -1,6 +1,7 @@
 import type { z } from "zod";
 import type {
   EventSchema,
+  GeoJSONAreaGeometrySchema,
   InscriptionSchema,
   InscriptionsResponseSchema,
   LocationSchema,
@@ -60,6 +61,17 @@ export interface GeoJSONFeatureCollection {
   readonly features: readonly GeoJSONFeature[];
 }
 
+export interface GeoJSONLineStringFeature {
+  readonly type: "Feature";
+  readonly geometry: {
+    readonly type: "LineString";
+    readonly coordinates: readonly (readonly [number, number])[];
+  } | null;
+  readonly properties: Readonly<Record<string, unknown>>;
+}
+
+export type GeoJSONAreaGeometry = z.infer<typeof GeoJSONAreaGeometrySchema>;
+
 export type SearchOptions = z.infer<typeof SearchOptionsSchema>;
 
 export interface ApiResponse<T> {
@@ -76,9 +88,3 @@ export interface Coordinates {
 export interface CoordinateSearchCriteria extends Coordinates {
   readonly radius: number;
 }
-
-export interface ApiError {
-  readonly code: string;
-  readonly message: string;
-  readonly details?: Record<string, unknown>;
-}
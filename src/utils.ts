@@ -52,6 +52,49 @@ export function formatHaikuMonumentForDisplay(monument: Monument): string {
   return formatMonumentForDisplay(monument);
 }
 
+/**
+ * 句碑を都道府県・地域・俳人・季節ごとに集計する
+ */
+export function computeMonumentStatistics(
+  monuments: readonly Monument[],
+): MonumentStatistics {
+  const byPrefecture: Record<string, number> = {};
+  const byRegion: Record<string, number> = {};
+  const byPoet: Record<string, number> = {};
+  const bySeason: Record<string, number> = {};
+
+  for (const monument of monuments) {
+    const location = monument.locations?.[0];
+    const poet = monument.poets?.[0];
+    const poem = monument.inscriptions?.[0]?.poems?.[0];
+
+    if (location?.prefecture) {
+      byPrefecture[location.prefecture] =
+        (byPrefecture[location.prefecture] || 0) + 1;
+    }
+
+    if (location?.region) {
+      byRegion[location.region] = (byRegion[location.region] || 0) + 1;
+    }
+
+    if (poet?.name) {
+      byPoet[poet.name] = (byPoet[poet.name] || 0) + 1;
+    }
+
+    if (poem?.season) {
+      bySeason[poem.season] = (bySeason[poem.season] || 0) + 1;
+    }
+  }
+
+  return {
+    total: monuments.length,
+    byPrefecture,
+    byRegion,
+    byPoet,
+    bySeason,
+  };
+}
+
 export function formatStatisticsForDisplay(
   statistics: MonumentStatistics,
 ): string {
@@ -95,6 +138,33 @@ export function validateCoordinates(lat: number, lon: number): boolean {
   );
 }
 
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * 2地点間の距離（メートル）をハーバサイン公式で計算する
+ */
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
 export function formatDistance(meters: number): string {
   const METERS_PER_KM = 1000;
 
@@ -105,6 +175,14 @@ export function formatDistance(meters: number): string {
   return `${(meters / METERS_PER_KM).toFixed(1)}km`;
 }
 
+/**
+ * API の日時（"YYYY-MM-DD HH:MM:SS" または ISO 8601）をミリ秒に変換する。空の場合は NaN を返す
+ */
+export function parseApiTimestamp(value: string | null | undefined): number {
+  if (!value) return Number.NaN;
+  return Date.parse(value.includes("T") ? value : value.replace(" ", "T"));
+}
+
 export function parseSeasonQuery(query: string): string | null {
   const normalizedQuery = query.toLowerCase();
   return SEASON_MAP[normalizedQuery] ?? null;
@@ -0,0 +1,20 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../../src/server/create-server.js";
+
+/**
+ * インメモリトランスポートでMCPサーバーに接続したテスト用クライアント
+ */
+export async function connectClient(): Promise<Client> {
+  const mcpServer = createMcpServer();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+
+  await Promise.all([
+    mcpServer.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+
+  return client;
+}
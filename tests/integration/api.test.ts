@@ -1,11 +1,40 @@
 import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
-import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
 import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  type CrawlProgress,
+  configureCache,
+  configureRetryPolicy,
+  fetchAllMonuments,
   fetchMonumentById,
   fetchMonuments,
   fetchPoets,
+  fetchSources,
+  probeUpstream,
 } from "../../src/api.js";
+import { MemoryCacheBackend } from "../../src/cache.js";
+import { CONFIG } from "../../src/config.js";
+import {
+  ApiError,
+  CircuitOpenError,
+  NotFoundError,
+  RateLimitedError,
+  UpstreamServerError,
+  ValidationFailedError,
+} from "../../src/errors.js";
+import {
+  cacheRevalidationsTotal,
+  upstreamCoalescedRequestsTotal,
+} from "../../src/metrics.js";
 import { mockMonuments, mockPoets } from "../fixtures/mock-data.js";
 
 const server = setupServer(
@@ -58,7 +87,12 @@ const server = setupServer(
 );
 
 beforeAll(() => server.listen({ onUnhandledRequest: "warn" }));
-afterEach(() => server.resetHandlers());
+// 再試行の待機を短くし、テストごとにサーキットブレーカーの状態をリセットする
+beforeEach(() => configureRetryPolicy({ baseDelayMs: 1, maxDelayMs: 5 }));
+afterEach(() => {
+  server.resetHandlers();
+  configureRetryPolicy();
+});
 afterAll(() => server.close());
 
 describe("統合テスト - fetchMonuments", () => {
@@ -137,6 +171,64 @@ describe("統合テスト - エラーハンドリング", () => {
     await expect(fetchMonuments({ limit: 10 })).rejects.toThrow();
   });
 
+  it("存在しないIDはNotFoundErrorになる", async () => {
+    await expect(fetchMonumentById(9999)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(fetchMonumentById(9999)).rejects.toMatchObject({
+      resource: "/monuments",
+      id: 9999,
+      endpoint: "/monuments/:id",
+      status: 404,
+      retryable: false,
+    });
+  });
+
+  it("5xxはUpstreamServerErrorになる", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () =>
+        HttpResponse.json({ error: "Bad Gateway" }, { status: 502 }),
+      ),
+    );
+
+    const error = await fetchMonuments({ limit: 11 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UpstreamServerError);
+    expect(error).toMatchObject({
+      endpoint: "/monuments",
+      status: 502,
+      retryable: true,
+    });
+  });
+
+  it("429はRetry-Afterの秒数を持つRateLimitedErrorになる", async () => {
+    server.use(
+      http.get(
+        "https://api.kuhi.jp/monuments",
+        () =>
+          new HttpResponse(null, {
+            status: 429,
+            headers: { "Retry-After": "30" },
+          }),
+      ),
+    );
+
+    const error = await fetchMonuments({ limit: 12 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ status: 429, retryAfterSeconds: 30 });
+  });
+
+  it("JSONとして解釈できない応答はValidationFailedErrorになる", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () =>
+        HttpResponse.text("<html>maintenance</html>"),
+      ),
+    );
+
+    await expect(fetchMonuments({ limit: 13 })).rejects.toBeInstanceOf(
+      ValidationFailedError,
+    );
+  });
+
   it("ネットワークエラー時にリトライ機構が動作する", async () => {
     let attemptCount = 0;
 
@@ -159,3 +251,341 @@ describe("統合テスト - エラーハンドリング", () => {
     expect(attemptCount).toBe(3);
   });
 });
+
+describe("統合テスト - 再試行ポリシー", () => {
+  function respondWith(...responses: (() => Response)[]) {
+    let attempts = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () => {
+        const respond =
+          responses[Math.min(attempts, responses.length - 1)] ??
+          (() => HttpResponse.json(mockMonuments));
+        attempts++;
+        return respond();
+      }),
+    );
+    return () => attempts;
+  }
+
+  it("5xxの応答を再試行する", async () => {
+    const attempts = respondWith(
+      () => HttpResponse.json({ error: "unavailable" }, { status: 503 }),
+      () => HttpResponse.json(mockMonuments),
+    );
+
+    const result = await fetchMonuments({ limit: 21 });
+
+    expect(result.length).toBeGreaterThan(0);
+    expect(attempts()).toBe(2);
+  });
+
+  it("429はRetry-Afterの秒数だけ待って再試行する", async () => {
+    const attempts = respondWith(
+      () =>
+        new HttpResponse(null, {
+          status: 429,
+          headers: { "Retry-After": "1" },
+        }),
+      () => HttpResponse.json(mockMonuments),
+    );
+    const startedAt = Date.now();
+
+    await fetchMonuments({ limit: 22 });
+
+    expect(attempts()).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+  });
+
+  it("Retry-Afterが長すぎる場合は待たずにエラーにする", async () => {
+    const attempts = respondWith(
+      () =>
+        new HttpResponse(null, {
+          status: 429,
+          headers: { "Retry-After": "3600" },
+        }),
+    );
+
+    await expect(fetchMonuments({ limit: 23 })).rejects.toMatchObject({
+      retryAfterSeconds: 3600,
+    });
+    expect(attempts()).toBe(1);
+  });
+
+  it("404以外の4xxも再試行しない", async () => {
+    const attempts = respondWith(() =>
+      HttpResponse.json({ error: "Bad Request" }, { status: 400 }),
+    );
+
+    const error = await fetchMonuments({ limit: 24 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, retryable: false });
+    expect(attempts()).toBe(1);
+  });
+
+  it("失敗が続くとエンドポイントを遮断し、リクエストを送らずに失敗させる", async () => {
+    configureRetryPolicy({
+      attempts: 1,
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+    });
+    const attempts = respondWith(() =>
+      HttpResponse.json({ error: "unavailable" }, { status: 503 }),
+    );
+
+    await expect(fetchMonuments({ limit: 25 })).rejects.toBeInstanceOf(
+      UpstreamServerError,
+    );
+    await expect(fetchMonuments({ limit: 26 })).rejects.toBeInstanceOf(
+      UpstreamServerError,
+    );
+    const error = await fetchMonuments({ limit: 27 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ endpoint: "/monuments" });
+    expect(error.retryAfterSeconds).toBeGreaterThan(0);
+    expect(attempts()).toBe(2);
+  });
+});
+
+describe("統合テスト - 同時リクエストの集約", () => {
+  it("同じリクエストが実行中であれば上流に送らずに結果を共有する", async () => {
+    let requests = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments/:id", async ({ params }) => {
+        requests++;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return HttpResponse.json({
+          ...mockMonuments[0],
+          id: Number(params.id),
+        });
+      }),
+    );
+    const coalescedBefore = upstreamCoalescedRequestsTotal.get({
+      endpoint: "/monuments/:id",
+    });
+
+    const results = await Promise.all([
+      fetchMonumentById(501),
+      fetchMonumentById(501),
+      fetchMonumentById(501),
+      fetchMonumentById(502),
+    ]);
+
+    expect(results.map((monument) => monument.id)).toEqual([
+      501, 501, 501, 502,
+    ]);
+    expect(requests).toBe(2);
+    expect(
+      upstreamCoalescedRequestsTotal.get({ endpoint: "/monuments/:id" }) -
+        coalescedBefore,
+    ).toBe(2);
+  });
+
+  it("実行中のリクエストのエラーも共有する", async () => {
+    let requests = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments/:id", async () => {
+        requests++;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return HttpResponse.json({ error: "Not Found" }, { status: 404 });
+      }),
+    );
+
+    const results = await Promise.allSettled([
+      fetchMonumentById(503),
+      fetchMonumentById(503),
+    ]);
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "rejected",
+      "rejected",
+    ]);
+    expect(requests).toBe(1);
+  });
+});
+
+describe("統合テスト - probeUpstream", () => {
+  it("上流のAPIが応答すればokを返す", async () => {
+    const result = await probeUpstream();
+
+    expect(result).toMatchObject({ ok: true, statusCode: 200, error: null });
+  });
+
+  it("エラー応答や接続失敗をリトライせずに報告する", async () => {
+    let attemptCount = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () => {
+        attemptCount++;
+        return HttpResponse.error();
+      }),
+    );
+
+    const result = await probeUpstream();
+
+    expect(result).toMatchObject({ ok: false, statusCode: null });
+    expect(result.error).toBeTruthy();
+    expect(attemptCount).toBe(1);
+  });
+});
+
+describe("統合テスト - fetchAllMonuments の進捗と中断", () => {
+  // 250件を100件ずつのページで返す
+  function servePages() {
+    const requestedOffsets: number[] = [];
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", ({ request }) => {
+        const url = new URL(request.url);
+        const offset = Number(url.searchParams.get("offset") ?? 0);
+        const limit = Number(url.searchParams.get("limit") ?? 100);
+        requestedOffsets.push(offset);
+        const count = Math.max(0, Math.min(limit, 250 - offset));
+        return HttpResponse.json(
+          Array.from({ length: count }, (_, index) => ({
+            ...mockMonuments[0],
+            id: offset + index + 1,
+          })),
+        );
+      }),
+    );
+    return requestedOffsets;
+  }
+
+  it("ページを取得するたびに累計件数を通知する", async () => {
+    servePages();
+    const progress: CrawlProgress[] = [];
+
+    const monuments = await fetchAllMonuments({ poet_id: 9001 }, undefined, {
+      onProgress: (event) => progress.push(event),
+    });
+
+    expect(monuments).toHaveLength(250);
+    expect(progress).toEqual([
+      { fetched: 100, page: 1 },
+      { fetched: 200, page: 2 },
+      { fetched: 250, page: 3 },
+    ]);
+  });
+
+  it("中断されると以降のページを取得せずにAbortErrorで終了する", async () => {
+    const requestedOffsets = servePages();
+    const controller = new AbortController();
+
+    await expect(
+      fetchAllMonuments({ poet_id: 9002 }, undefined, {
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(requestedOffsets).toEqual([0]);
+  });
+});
+
+describe("統合テスト - 古いキャッシュの再検証", () => {
+  const source = {
+    id: 1,
+    citation: "俳文学大辞典",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  // ETag と Last-Modified を返し、条件付きリクエストで変更がなければ 304 を返す
+  function serveSources(version: { current: string }) {
+    const requests: Headers[] = [];
+    server.use(
+      http.get("https://api.kuhi.jp/sources", ({ request }) => {
+        requests.push(request.headers);
+        const etag = `"${version.current}"`;
+        const headers = {
+          ETag: etag,
+          "Last-Modified": "Wed, 01 Jan 2025 00:00:00 GMT",
+        };
+        if (request.headers.get("If-None-Match") === etag) {
+          return new HttpResponse(null, { status: 304, headers });
+        }
+        return HttpResponse.json(
+          [{ ...source, citation: `${source.citation} ${version.current}` }],
+          { headers },
+        );
+      }),
+    );
+    return requests;
+  }
+
+  // 有効期間を 0 にして、保存した直後からキャッシュを古い扱いにする
+  function useExpiredCache(staleWhileRevalidate: number) {
+    configureCache({
+      backend: new MemoryCacheBackend(),
+      ttlByEndpoint: { "/sources": 0 },
+      staleWhileRevalidate,
+    });
+  }
+
+  afterEach(() => {
+    configureCache({
+      backend: new MemoryCacheBackend(),
+      ttlByEndpoint: {},
+      staleWhileRevalidate: CONFIG.CACHE_STALE_WHILE_REVALIDATE,
+    });
+  });
+
+  it("古いキャッシュをすぐに返し、バックグラウンドで条件付きリクエストを送る", async () => {
+    useExpiredCache(60000);
+    const version = { current: "v1" };
+    const requests = serveSources(version);
+    const notModifiedBefore = cacheRevalidationsTotal.get({
+      result: "not_modified",
+    });
+
+    await fetchSources();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const stale = await fetchSources();
+
+    expect(stale[0]?.citation).toBe("俳文学大辞典 v1");
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(requests[1]?.get("If-None-Match")).toBe('"v1"');
+    expect(requests[1]?.get("If-Modified-Since")).toBe(
+      "Wed, 01 Jan 2025 00:00:00 GMT",
+    );
+    await vi.waitFor(() =>
+      expect(
+        cacheRevalidationsTotal.get({ result: "not_modified" }) -
+          notModifiedBefore,
+      ).toBe(1),
+    );
+  });
+
+  it("変更があればバックグラウンドの更新後に新しいデータを返す", async () => {
+    useExpiredCache(60000);
+    const version = { current: "v1" };
+    const requests = serveSources(version);
+
+    await fetchSources();
+    version.current = "v2";
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect((await fetchSources())[0]?.citation).toBe("俳文学大辞典 v1");
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await vi.waitFor(async () =>
+      expect((await fetchSources())[0]?.citation).toBe("俳文学大辞典 v2"),
+    );
+  });
+
+  it("再検証できる期間を過ぎたキャッシュは条件付きリクエストの完了を待つ", async () => {
+    useExpiredCache(0);
+    const version = { current: "v1" };
+    const requests = serveSources(version);
+
+    await fetchSources();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const revalidated = await fetchSources();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.get("If-None-Match")).toBe('"v1"');
+    expect(revalidated[0]?.citation).toBe("俳文学大辞典 v1");
+
+    version.current = "v2";
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect((await fetchSources())[0]?.citation).toBe("俳文学大辞典 v2");
+  });
+});
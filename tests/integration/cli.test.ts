@@ -0,0 +1,181 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { type CliIO, EXIT_CODES, runCli } from "../../src/cli.js";
+import { mockMonuments } from "../fixtures/mock-data.js";
+
+let lastMonumentsQuery: URLSearchParams | null = null;
+
+const server = setupServer(
+  http.get("https://api.kuhi.jp/monuments", ({ request }) => {
+    const url = new URL(request.url);
+    lastMonumentsQuery = url.searchParams;
+    const prefecture = url.searchParams.get("prefecture");
+
+    const monuments = prefecture
+      ? mockMonuments.filter((m) =>
+          m.locations?.some((l) => l.prefecture === prefecture),
+        )
+      : mockMonuments;
+    return HttpResponse.json(monuments);
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  lastMonumentsQuery = null;
+});
+afterAll(() => server.close());
+
+function createIO() {
+  let stdout = "";
+  let stderr = "";
+  const io: CliIO = {
+    stdout: {
+      write: (chunk: string) => {
+        stdout += chunk;
+      },
+    },
+    stderr: {
+      write: (chunk: string) => {
+        stderr += chunk;
+      },
+    },
+  };
+  return {
+    io,
+    stdout: () => stdout,
+    stderr: () => stderr,
+  };
+}
+
+describe("CLI - ヘルプと引数検証", () => {
+  it("--helpでコマンド一覧を表示する", async () => {
+    const { io, stdout } = createIO();
+
+    await expect(runCli(["--help"], io)).resolves.toBe(EXIT_CODES.SUCCESS);
+    for (const command of ["serve", "export", "snapshot", "stats", "search"]) {
+      expect(stdout()).toContain(command);
+    }
+  });
+
+  it("サブコマンドの--helpでそのコマンドのヘルプを表示する", async () => {
+    const { io, stdout } = createIO();
+
+    await expect(runCli(["export", "--help"], io)).resolves.toBe(
+      EXIT_CODES.SUCCESS,
+    );
+    expect(stdout()).toContain("--format");
+  });
+
+  it("不明なコマンドは終了コード2を返す", async () => {
+    const { io, stderr } = createIO();
+
+    await expect(runCli(["unknown"], io)).resolves.toBe(EXIT_CODES.USAGE);
+    expect(stderr()).toContain("不明なコマンドです: unknown");
+  });
+
+  it("不正なオプション値は終了コード2を返す", async () => {
+    const { io, stderr } = createIO();
+
+    await expect(runCli(["export", "--format", "shp"], io)).resolves.toBe(
+      EXIT_CODES.USAGE,
+    );
+    expect(stderr()).toContain("--format");
+  });
+
+  it("未定義のオプションは終了コード2を返す", async () => {
+    const { io } = createIO();
+
+    await expect(runCli(["stats", "--unknown"], io)).resolves.toBe(
+      EXIT_CODES.USAGE,
+    );
+  });
+
+  it("searchは条件が無い場合に終了コード2を返す", async () => {
+    const { io } = createIO();
+
+    await expect(runCli(["search"], io)).resolves.toBe(EXIT_CODES.USAGE);
+  });
+
+  it("stdioでは--portを指定できない", async () => {
+    const { io } = createIO();
+
+    await expect(runCli(["serve", "--port", "8080"], io)).resolves.toBe(
+      EXIT_CODES.USAGE,
+    );
+  });
+});
+
+describe("CLI - データ操作", () => {
+  it("exportは絞り込んだ句碑を標準出力にCSVで書き出す", async () => {
+    const { io, stdout } = createIO();
+
+    await expect(
+      runCli(["export", "--format", "csv", "--prefecture", "東京都"], io),
+    ).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(lastMonumentsQuery?.get("prefecture")).toBe("東京都");
+
+    const lines = stdout().trim().split("\r\n");
+    expect(lines).toHaveLength(3);
+  });
+
+  it("exportは出力先の拡張子から形式を推定してファイルに書き出す", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "kuhi-cli-"));
+    const outputPath = path.join(dir, "out", "kuhi.gpx");
+    const { io, stderr } = createIO();
+
+    try {
+      await expect(runCli(["export", "-o", outputPath], io)).resolves.toBe(
+        EXIT_CODES.SUCCESS,
+      );
+      const content = await fs.readFile(outputPath, "utf8");
+      expect(content).toContain("<gpx");
+      expect(stderr()).toContain("2件の句碑をGPX形式で書き出しました");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("statsは集計結果をJSONで出力する", async () => {
+    const { io, stdout } = createIO();
+
+    await expect(runCli(["stats", "--json"], io)).resolves.toBe(
+      EXIT_CODES.SUCCESS,
+    );
+    expect(JSON.parse(stdout())).toMatchObject({
+      total: 2,
+      byPoet: { 松尾芭蕉: 1, 与謝蕪村: 1 },
+    });
+  });
+
+  it("searchはキーワードと条件をAPIに渡す", async () => {
+    const { io, stdout } = createIO();
+
+    await expect(
+      runCli(["search", "古池", "--poet", "芭蕉", "--limit", "5"], io),
+    ).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(lastMonumentsQuery?.get("q")).toBe("古池");
+    expect(lastMonumentsQuery?.get("poet_name_contains")).toBe("芭蕉");
+    expect(lastMonumentsQuery?.get("limit")).toBe("5");
+    expect(stdout()).toContain("【句碑ID: 1】");
+  });
+
+  it("APIエラーは終了コード1を返す", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () =>
+        HttpResponse.json({ error: "boom" }, { status: 404 }),
+      ),
+    );
+    const { io, stderr } = createIO();
+
+    await expect(runCli(["search", "不明"], io)).resolves.toBe(
+      EXIT_CODES.FAILURE,
+    );
+    expect(stderr()).toContain("エラー:");
+  });
+});
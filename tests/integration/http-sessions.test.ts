@@ -0,0 +1,355 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiKeyAuthenticator } from "../../src/server/auth.js";
+import {
+  type HttpServerHandle,
+  type HttpServerOptions,
+  startHttpServer,
+} from "../../src/server/http.js";
+import { RateLimiter } from "../../src/server/rate-limit.js";
+import { ReadinessProbe } from "../../src/server/readiness.js";
+
+let handle: HttpServerHandle | null = null;
+const clients: Client[] = [];
+
+async function startServer(options: HttpServerOptions = {}) {
+  handle = await startHttpServer({ port: 0, ...options });
+  const { port } = handle.server.address() as AddressInfo;
+  return new URL(`http://127.0.0.1:${port}/mcp`);
+}
+
+async function connect(url: URL, apiKey?: string) {
+  const transport = new StreamableHTTPClientTransport(
+    url,
+    apiKey
+      ? { requestInit: { headers: { Authorization: `Bearer ${apiKey}` } } }
+      : undefined,
+  );
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+  clients.push(client);
+  return { client, transport };
+}
+
+function initializeBody() {
+  return JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "raw-client", version: "1.0.0" },
+    },
+  });
+}
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await handle?.close();
+  handle = null;
+});
+
+describe("Streamable HTTP - マルチセッション", () => {
+  it("クライアントごとに別のセッションを作成する", async () => {
+    const url = await startServer();
+    const first = await connect(url);
+    const second = await connect(url);
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(handle?.sessions.size).toBe(2);
+
+    const [firstTools, secondTools] = await Promise.all([
+      first.client.listTools(),
+      second.client.listTools(),
+    ]);
+    expect(firstTools.tools.length).toBeGreaterThan(0);
+    expect(secondTools.tools).toHaveLength(firstTools.tools.length);
+  });
+
+  it("DELETEでセッションを終了する", async () => {
+    const url = await startServer();
+    const { transport } = await connect(url);
+    const sessionId = transport.sessionId as string;
+
+    await transport.terminateSession();
+
+    expect(handle?.sessions.size).toBe(0);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "MCP-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("停止するとSIGTERMのハンドラーを取り除く", async () => {
+    const listeners = process.listenerCount("SIGTERM");
+    await startServer();
+    expect(process.listenerCount("SIGTERM")).toBe(listeners + 1);
+
+    await handle?.close();
+    handle = null;
+
+    expect(process.listenerCount("SIGTERM")).toBe(listeners);
+  });
+
+  it("セッションIDの無い初期化以外のリクエストは400を返す", async () => {
+    const url = await startServer();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("同時セッション数の上限を超えると503を返す", async () => {
+    const url = await startServer({ maxSessions: 1 });
+    await connect(url);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: initializeBody(),
+    });
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("retry-after")).toBe("60");
+  });
+
+  it("操作のないセッションを破棄する", async () => {
+    const url = await startServer({ sessionIdleTimeoutMs: 60000 });
+    const { client } = await connect(url);
+    await client.listTools();
+
+    await expect(
+      handle?.sessions.evictIdleSessions(Date.now() + 30000),
+    ).resolves.toBe(0);
+    await expect(
+      handle?.sessions.evictIdleSessions(Date.now() + 60000),
+    ).resolves.toBe(1);
+    expect(handle?.sessions.size).toBe(0);
+  });
+});
+
+describe("Streamable HTTP - リクエストID", () => {
+  it("X-Request-Idを引き継いでレスポンスに返す", async () => {
+    const url = await startServer();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "X-Request-Id": "trace-0123",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("x-request-id")).toBe("trace-0123");
+  });
+});
+
+describe("Streamable HTTP - API キー認証", () => {
+  const ADMIN_KEY = "admin-key-0123456789abcdef";
+  const PROMPTS_KEY = "prompts-key-0123456789abcdef";
+
+  function createAuth() {
+    return new ApiKeyAuthenticator([
+      { name: "admin", key: ADMIN_KEY },
+      { name: "prompts-only", key: PROMPTS_KEY, scopes: ["prompts"] },
+    ]);
+  }
+
+  it("資格情報の無いリクエストは401を返す", async () => {
+    const url = await startServer({ auth: createAuth() });
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: initializeBody(),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("Bearer");
+  });
+
+  it("有効なキーで接続しToolを一覧できる", async () => {
+    const url = await startServer({ auth: createAuth() });
+    const { client } = await connect(url, ADMIN_KEY);
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+  });
+
+  it("スコープ外の操作は403を返す", async () => {
+    const url = await startServer({ auth: createAuth() });
+    const { client } = await connect(url, PROMPTS_KEY);
+
+    await expect(client.listPrompts()).resolves.toBeDefined();
+    await expect(client.listTools()).rejects.toThrow(/403|tools/);
+  });
+
+  it("別のキーで作成されたセッションは利用できない", async () => {
+    const url = await startServer({ auth: createAuth() });
+    const { transport } = await connect(url, ADMIN_KEY);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${PROMPTS_KEY}`,
+        "MCP-Session-Id": transport.sessionId as string,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "prompts/list" }),
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("/metricsはmetricsスコープを持つキーにだけ返す", async () => {
+    const url = await startServer({ auth: createAuth() });
+    const metricsUrl = new URL("/metrics", url);
+    const fetchMetrics = (key?: string) =>
+      fetch(metricsUrl, {
+        headers: key ? { Authorization: `Bearer ${key}` } : {},
+      });
+
+    expect((await fetchMetrics()).status).toBe(401);
+    expect((await fetchMetrics(PROMPTS_KEY)).status).toBe(403);
+    expect((await fetchMetrics(ADMIN_KEY)).status).toBe(200);
+  });
+});
+
+describe("Streamable HTTP - レート制限", () => {
+  it("上限を超えると429とRetry-Afterを返す", async () => {
+    const url = await startServer({
+      rateLimiter: new RateLimiter({
+        // initialize も1件として数える
+        global: { perMinute: 3 },
+        dailyQuota: null,
+      }),
+    });
+    const { client, transport } = await connect(url);
+
+    await client.listTools();
+    await client.listPrompts();
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "MCP-Session-Id": transport.sessionId as string,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 11, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(429);
+    const retryAfter = Number(response.headers.get("retry-after"));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(30);
+    expect(await response.json()).toMatchObject({
+      id: 11,
+      error: { message: expect.stringContaining("Too Many Requests") },
+    });
+  });
+
+  it("セッションを作り直しても同じ接続元の1日の上限は回復しない", async () => {
+    const url = await startServer({
+      rateLimiter: new RateLimiter({ global: null, dailyQuota: 2 }),
+    });
+    const { client } = await connect(url);
+    await client.listTools();
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: initializeBody(),
+    });
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({
+      error: { message: expect.stringContaining("daily quota") },
+    });
+  });
+});
+
+describe("Streamable HTTP - メトリクス", () => {
+  it("/metricsでPrometheus形式のメトリクスを返す", async () => {
+    const url = await startServer();
+    await connect(url);
+
+    const response = await fetch(new URL("/metrics", url));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/plain");
+    const text = await response.text();
+    expect(text).toContain("# TYPE kuhi_tool_call_duration_seconds histogram");
+    expect(text).toContain("# TYPE kuhi_cache_size_bytes gauge");
+    expect(text).toContain("kuhi_http_sessions 1\n");
+  });
+});
+
+describe("Streamable HTTP - 準備状態", () => {
+  it("上流が応答すれば/readyは200を返す", async () => {
+    const url = await startServer({
+      readiness: new ReadinessProbe({
+        probe: async () => ({
+          ok: true,
+          statusCode: 200,
+          latencyMs: 8,
+          error: null,
+        }),
+      }),
+    });
+
+    const response = await fetch(new URL("/ready", url));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: "ready",
+      checks: { upstream: { ok: true }, validation: { healthy: true } },
+    });
+  });
+
+  it("上流が応答しない場合/readyは503を返す", async () => {
+    const url = await startServer({
+      readiness: new ReadinessProbe({
+        probe: async () => ({
+          ok: false,
+          statusCode: 502,
+          latencyMs: 8,
+          error: "HTTP 502",
+        }),
+      }),
+    });
+
+    const response = await fetch(new URL("/ready", url));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: "degraded" });
+  });
+});
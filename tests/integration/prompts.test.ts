@@ -0,0 +1,66 @@
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { connectClient } from "../fixtures/mcp-client.js";
+import { mockPoets } from "../fixtures/mock-data.js";
+
+const server = setupServer(
+  // GET /poets
+  http.get("https://api.kuhi.jp/poets", () => {
+    return HttpResponse.json(mockPoets);
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe("統合テスト - Prompts", () => {
+  it("吟行・解説・比較のPromptsが登録されている", async () => {
+    const client = await connectClient();
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual(
+      expect.arrayContaining([
+        "plan_ginko_walk",
+        "explain_monument",
+        "compare_poets",
+      ]),
+    );
+  });
+
+  it("吟行プランのPromptが対応するToolの呼び出しを含む", async () => {
+    const client = await connectClient();
+    const result = await client.getPrompt({
+      name: "plan_ginko_walk",
+      arguments: { prefecture: "三重県", season: "秋" },
+    });
+
+    const content = result.messages[0]?.content;
+    expect(content?.type).toBe("text");
+    const text = content?.type === "text" ? content.text : "";
+    expect(text).toContain("explore_monuments_for_tourism");
+    expect(text).toContain('"prefecture": "三重県"');
+    expect(text).toContain('"season": "秋"');
+  });
+
+  it("都道府県名を補完できる", async () => {
+    const client = await connectClient();
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "plan_ginko_walk" },
+      argument: { name: "prefecture", value: "三重" },
+    });
+
+    expect(result.completion.values).toEqual(["三重県"]);
+  });
+
+  it("俳人名を補完できる", async () => {
+    const client = await connectClient();
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "compare_poets" },
+      argument: { name: "poet_a", value: "蕪村" },
+    });
+
+    expect(result.completion.values).toEqual(["与謝蕪村"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { configureCache } from "../../src/api.js";
+import { MemoryCacheBackend } from "../../src/cache.js";
+import { configureMonumentStore } from "../../src/monument-store.js";
+import { connectClient } from "../fixtures/mcp-client.js";
+import { mockMonuments, mockPoets } from "../fixtures/mock-data.js";
+
+const server = setupServer(
+  // GET /monuments
+  http.get("https://api.kuhi.jp/monuments", () => {
+    return HttpResponse.json(mockMonuments);
+  }),
+
+  // GET /monuments/:id
+  http.get("https://api.kuhi.jp/monuments/:id", ({ params }) => {
+    const { id } = params;
+    const monument = mockMonuments.find((m) => m.id === Number(id));
+
+    if (!monument) {
+      return HttpResponse.json({ error: "Not Found" }, { status: 404 });
+    }
+
+    return HttpResponse.json(monument);
+  }),
+
+  // GET /poets
+  http.get("https://api.kuhi.jp/poets", () => {
+    return HttpResponse.json(mockPoets);
+  }),
+
+  // GET /sources
+  http.get("https://api.kuhi.jp/sources", () => {
+    return HttpResponse.json([]);
+  }),
+
+  // GET /locations
+  http.get("https://api.kuhi.jp/locations", () => {
+    return HttpResponse.json(mockMonuments.flatMap((m) => m.locations ?? []));
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  configureMonumentStore();
+});
+afterAll(() => server.close());
+
+describe("統合テスト - Resources", () => {
+  it("kuhi:// のリソーステンプレートが登録されている", async () => {
+    const client = await connectClient();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(
+      expect.arrayContaining([
+        "kuhi://monuments/{id}",
+        "kuhi://poets/{id}",
+        "kuhi://sources/{id}",
+        "kuhi://locations/{id}",
+      ]),
+    );
+  });
+
+  it("句碑リソースを読み込める", async () => {
+    const client = await connectClient();
+    const result = await client.readResource({ uri: "kuhi://monuments/1" });
+
+    const content = result.contents[0];
+    expect(content?.mimeType).toBe("application/json");
+    const monument = JSON.parse(String(content?.text));
+    expect(monument.id).toBe(1);
+    expect(monument.canonical_name).toBe("テスト句碑1（松尾芭蕉）");
+  });
+
+  it("リソース一覧に句碑と俳人が含まれる", async () => {
+    const client = await connectClient();
+    const { resources } = await client.listResources();
+
+    expect(resources.map((r) => r.uri)).toEqual(
+      expect.arrayContaining([
+        "kuhi://monuments/1",
+        "kuhi://monuments/2",
+        "kuhi://poets/1",
+      ]),
+    );
+  });
+
+  it("俳人IDを補完できる", async () => {
+    const client = await connectClient();
+    const result = await client.complete({
+      ref: { type: "ref/resource", uri: "kuhi://poets/{id}" },
+      argument: { name: "id", value: "2" },
+    });
+
+    expect(result.completion.values).toEqual(["2"]);
+  });
+
+  it("一覧の先頭に含まれない句碑IDも補完できる", async () => {
+    const monuments = Array.from({ length: 120 }, (_, index) => ({
+      ...mockMonuments[0],
+      id: index + 1,
+    }));
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", ({ request }) => {
+        const url = new URL(request.url);
+        const offset = Number(url.searchParams.get("offset") ?? 0);
+        const limit = Number(url.searchParams.get("limit") ?? 50);
+        return HttpResponse.json(monuments.slice(offset, offset + limit));
+      }),
+    );
+    const client = await connectClient();
+
+    const result = await client.complete({
+      ref: { type: "ref/resource", uri: "kuhi://monuments/{id}" },
+      argument: { name: "id", value: "11" },
+    });
+
+    expect(result.completion.values).toEqual([
+      "11",
+      "110",
+      "111",
+      "112",
+      "113",
+      "114",
+      "115",
+      "116",
+      "117",
+      "118",
+      "119",
+    ]);
+  });
+
+  it("名称や住所の無い設置場所はIDを名前にする", async () => {
+    // 先のテストでキャッシュした一覧を使わない
+    configureCache({ backend: new MemoryCacheBackend() });
+    server.use(
+      http.get("https://api.kuhi.jp/locations", () =>
+        HttpResponse.json([
+          {
+            ...mockMonuments[0]?.locations?.[0],
+            id: 77,
+            place_name: null,
+            address: null,
+            prefecture: null,
+            municipality: null,
+          },
+        ]),
+      ),
+    );
+    const client = await connectClient();
+    const { resources } = await client.listResources();
+
+    expect(resources).toContainEqual(
+      expect.objectContaining({
+        uri: "kuhi://locations/77",
+        name: "場所ID 77",
+      }),
+    );
+  });
+});
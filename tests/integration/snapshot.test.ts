@@ -0,0 +1,191 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+  configureCache,
+  fetchAllMonuments,
+  fetchMonumentById,
+  fetchMonuments,
+  fetchPoems,
+  fetchPoets,
+  setOfflineSnapshot,
+} from "../../src/api.js";
+import { MemoryCacheBackend } from "../../src/cache.js";
+import { CONFIG } from "../../src/config.js";
+import { type LogRecord, runWithLogSink } from "../../src/logger.js";
+import {
+  SNAPSHOT_FORMAT_VERSION,
+  createSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "../../src/snapshot.js";
+import { mockMonuments, mockPoets } from "../fixtures/mock-data.js";
+
+let requestCount = 0;
+
+const server = setupServer(
+  http.get("https://api.kuhi.jp/monuments", () => {
+    requestCount++;
+    return HttpResponse.json(mockMonuments);
+  }),
+  http.get("https://api.kuhi.jp/poets", () => {
+    requestCount++;
+    return HttpResponse.json(mockPoets);
+  }),
+  http.get("https://api.kuhi.jp/sources", () => {
+    requestCount++;
+    return HttpResponse.json([]);
+  }),
+  http.get("https://api.kuhi.jp/locations", () => {
+    requestCount++;
+    return HttpResponse.json(mockMonuments.flatMap((m) => m.locations ?? []));
+  }),
+  http.get("https://api.kuhi.jp/poems", () => {
+    requestCount++;
+    return HttpResponse.json({
+      poems: mockMonuments.flatMap((m) =>
+        (m.inscriptions ?? []).flatMap((i) =>
+          (i.poems ?? []).map((p) => ({
+            ...p,
+            inscriptions: [{ ...i, poems: undefined }],
+          })),
+        ),
+      ),
+    });
+  }),
+  http.get("https://api.kuhi.jp/inscriptions", () => {
+    requestCount++;
+    return HttpResponse.json({
+      inscriptions: mockMonuments.flatMap((m) => m.inscriptions ?? []),
+    });
+  }),
+);
+
+let directory: string;
+
+beforeAll(async () => {
+  server.listen({ onUnhandledRequest: "error" });
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "kuhi-snapshot-"));
+});
+afterEach(() => {
+  server.resetHandlers();
+  setOfflineSnapshot(null);
+});
+afterAll(async () => {
+  server.close();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("統合テスト - オフラインスナップショット", () => {
+  it("全エンドポイントのスナップショットを作成して読み込める", async () => {
+    const bundle = await createSnapshot();
+    const filePath = await writeSnapshot(bundle, directory);
+
+    expect(path.basename(filePath)).toMatch(/^kuhi-snapshot-.*\.json$/);
+
+    const loaded = await readSnapshot(directory);
+    expect(loaded.format_version).toBe(SNAPSHOT_FORMAT_VERSION);
+    expect(loaded.collections.monuments).toHaveLength(2);
+    expect(loaded.collections.poets).toHaveLength(2);
+    expect(loaded.collections.poems).toHaveLength(2);
+    expect(loaded.collections.inscriptions).toHaveLength(2);
+  });
+
+  it("オフラインモードではAPIにアクセスせずフィルタを適用する", async () => {
+    setOfflineSnapshot(await readSnapshot(directory));
+    requestCount = 0;
+
+    const byPoet = await fetchMonuments({ poet_id: 2 });
+    expect(byPoet.map((m) => m.id)).toEqual([2]);
+
+    const byText = await fetchMonuments({ inscription_contains: "古池" });
+    expect(byText.map((m) => m.id)).toEqual([1]);
+
+    const paged = await fetchAllMonuments({ prefecture: "東京都" });
+    expect(paged).toHaveLength(2);
+
+    const poets = await fetchPoets({ name_contains: "蕪村" });
+    expect(poets.map((p) => p.name)).toEqual(["与謝蕪村"]);
+
+    const poems = await fetchPoems({ text_contains: "古池" });
+    expect(poems).toHaveLength(1);
+
+    const monument = await fetchMonumentById(1);
+    expect(monument.canonical_name).toBe("テスト句碑1（松尾芭蕉）");
+
+    await expect(fetchMonumentById(9999)).rejects.toThrow();
+    expect(requestCount).toBe(0);
+  });
+
+  it("オフラインモードで評価できない検索条件はエラーにする", async () => {
+    setOfflineSnapshot(await readSnapshot(directory));
+    requestCount = 0;
+
+    await expect(fetchMonuments({ text_contains: "古池" })).rejects.toThrow(
+      "Unsupported query parameter for local filtering: text_contains",
+    );
+    expect(requestCount).toBe(0);
+  });
+
+  it("スキーマに一致しないスナップショットはファイル名を含むエラーにする", async () => {
+    const filePath = path.join(directory, "broken.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        format_version: SNAPSHOT_FORMAT_VERSION,
+        created_at: "2025-01-01T00:00:00.000Z",
+        api_base_url: "https://api.kuhi.jp",
+        collections: { monuments: [{ id: "1" }] },
+      }),
+      "utf8",
+    );
+
+    await expect(readSnapshot(filePath)).rejects.toThrow(
+      `Invalid snapshot bundle ${filePath}`,
+    );
+  });
+
+  it("JSON として読めないスナップショットはファイル名を含むエラーにする", async () => {
+    const filePath = path.join(directory, "truncated.json");
+    await fs.writeFile(filePath, '{"format_version": 1', "utf8");
+
+    await expect(readSnapshot(filePath)).rejects.toThrow(
+      `Invalid snapshot bundle ${filePath}`,
+    );
+  });
+
+  it("巡回の上限に達したコレクションは警告を出して打ち切る", async () => {
+    configureCache({ backend: new MemoryCacheBackend() });
+    server.use(
+      http.get("https://api.kuhi.jp/sources", ({ request }) => {
+        const url = new URL(request.url);
+        const limit = Number(url.searchParams.get("limit"));
+        const offset = Number(url.searchParams.get("offset"));
+        return HttpResponse.json(
+          Array.from({ length: limit }, (_, i) => ({
+            id: offset + i + 1,
+            citation: `出典${offset + i + 1}`,
+          })),
+        );
+      }),
+    );
+    const records: LogRecord[] = [];
+
+    const bundle = await runWithLogSink(
+      (record) => records.push(record),
+      () => createSnapshot(),
+    );
+
+    expect(bundle.collections.sources).toHaveLength(100000 + CONFIG.MAX_LIMIT);
+    expect(records.filter((r) => r.level === "warn")).toMatchObject([
+      {
+        message:
+          "巡回の上限に達したため、以降のレコードはスナップショットに含まれません",
+        fields: { endpoint: "/sources", max_offset: 100000 },
+      },
+    ]);
+  });
+});
@@ -1,7 +1,30 @@
+import {
+  CallToolResultSchema,
+  type LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  type Progress,
+} from "@modelcontextprotocol/sdk/types.js";
 import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
-import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import { configureRetryPolicy } from "../../src/api.js";
+import {
+  cacheRequestsTotal,
+  renderMetrics,
+  toolCallDuration,
+  toolCallsTotal,
+} from "../../src/metrics.js";
+import { configureMonumentStore } from "../../src/monument-store.js";
 import { createMcpServer } from "../../src/server/create-server.js";
+import { connectClient } from "../fixtures/mcp-client.js";
 import { mockMonuments, mockPoets } from "../fixtures/mock-data.js";
 
 const server = setupServer(
@@ -42,7 +65,12 @@ const server = setupServer(
 );
 
 beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
-afterEach(() => server.resetHandlers());
+beforeEach(() => configureRetryPolicy({ baseDelayMs: 1, maxDelayMs: 5 }));
+afterEach(() => {
+  server.resetHandlers();
+  configureRetryPolicy();
+  configureMonumentStore();
+});
 afterAll(() => server.close());
 
 describe("統合テスト - createMcpServer", () => {
@@ -111,3 +139,566 @@ describe("統合テスト - 外部API依存の排除", () => {
     expect(data[0].name).toBe("松尾芭蕉");
   });
 });
+
+describe("統合テスト - 構造化出力", () => {
+  it("すべてのToolにoutputSchemaが宣言されている", async () => {
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toBeDefined();
+    }
+  });
+
+  it("get_haiku_monuments_geojsonがFeatureCollectionを返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 10 },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", properties: { id: 1, poet_name: "松尾芭蕉" } },
+        { type: "Feature", properties: { id: 2, poet_name: "与謝蕪村" } },
+      ],
+    });
+  });
+
+  it("get_haiku_monuments_geojsonはformat指定でKMLのテキストを返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 10, format: "kml" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toMatchObject([
+      { type: "text", text: expect.stringContaining("<Placemark") },
+    ]);
+    expect(result.structuredContent).toMatchObject({
+      type: "FeatureCollection",
+    });
+  });
+
+  it("explore_monuments_for_tourismが句碑一覧を返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "explore_monuments_for_tourism",
+      arguments: { prefecture: "東京都", max_results: 1 },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      total: 2,
+      monuments: [{ id: 1 }],
+    });
+  });
+
+  it("plan_monument_routeが訪問順序とLineStringを返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "plan_monument_route",
+      arguments: {
+        prefecture: "東京都",
+        latitude: 35.6812,
+        longitude: 139.7671,
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      travel_mode: "walking",
+      start: { latitude: 35.6812, longitude: 139.7671 },
+      stops: [
+        { order: 1, monument_id: 1, leg_distance_meters: 0 },
+        { order: 2, monument_id: 2 },
+      ],
+      route: {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [139.7671, 35.6812],
+            [139.7671, 35.6812],
+            [139.6917, 35.6895],
+          ],
+        },
+      },
+    });
+  });
+
+  it("plan_monument_routeは出発地点の無い1か所だけのルートでgeometryをnullにする", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments/:id", ({ params }) =>
+        HttpResponse.json(
+          mockMonuments.find((m) => m.id === Number(params.id)),
+        ),
+      ),
+    );
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "plan_monument_route",
+      arguments: { monument_ids: [1] },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      stops: [{ order: 1, monument_id: 1 }],
+      route: {
+        type: "Feature",
+        geometry: null,
+        properties: { monument_ids: [1] },
+      },
+    });
+  });
+
+  it("plan_day_trip_itineraryが時刻つきの行程を返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "plan_day_trip_itinerary",
+      arguments: {
+        latitude: 35.6812,
+        longitude: 139.7671,
+        start_time: "09:30",
+        time_budget_minutes: 60,
+        dwell_minutes: 20,
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      start_time: "09:30",
+      time_budget_minutes: 60,
+      stops: [
+        {
+          order: 1,
+          monument_id: 1,
+          arrival_time: "09:30",
+          departure_time: "09:50",
+        },
+      ],
+      skipped_count: 0,
+    });
+  });
+
+  it("search_monuments_in_areaがポリゴン内の句碑だけを返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "search_monuments_in_area",
+      arguments: {
+        polygon: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [139.75, 35.67],
+              [139.78, 35.67],
+              [139.78, 35.7],
+              [139.75, 35.7],
+              [139.75, 35.67],
+            ],
+          ],
+        },
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      type: "FeatureCollection",
+      features: [{ properties: { id: 1 } }],
+    });
+  });
+
+  it("search_monuments_in_areaは範囲未指定をエラーにする", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "search_monuments_in_area",
+      arguments: {},
+    });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it("analyze_monuments_statisticsが集計結果を返す", async () => {
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: "analyze_monuments_statistics",
+      arguments: { format: "summary" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      total: 2,
+      byPrefecture: { 東京都: 2 },
+      byPoet: { 松尾芭蕉: 1, 与謝蕪村: 1 },
+    });
+  });
+});
+
+describe("統合テスト - エラー結果", () => {
+  it("存在しない句碑IDを日本語のエラー結果で返す", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments/:id", () =>
+        HttpResponse.json({ error: "Not Found" }, { status: 404 }),
+      ),
+    );
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "learn_about_monument",
+      arguments: { monument_id: 123 },
+    });
+
+    expect(result).toEqual({
+      content: [{ type: "text", text: "エラー: 句碑ID 123 は存在しません" }],
+      isError: true,
+    });
+  });
+
+  it("上流のサーバーエラーを再試行を促すメッセージで返す", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () =>
+        HttpResponse.json({ error: "unavailable" }, { status: 503 }),
+      ),
+    );
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 7 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: "エラー: 句碑 API でサーバーエラーが発生しました（HTTP 503）。しばらく待ってから再度お試しください",
+      },
+    ]);
+  });
+  it("plan_monument_routeは句碑の取得に失敗した理由をエラー結果で返す", async () => {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments/:id", () =>
+        HttpResponse.json({ error: "unavailable" }, { status: 503 }),
+      ),
+    );
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "plan_monument_route",
+      arguments: { monument_ids: [501, 502] },
+    });
+
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: "エラー: 句碑 API でサーバーエラーが発生しました（HTTP 503）。しばらく待ってから再度お試しください",
+        },
+      ],
+      isError: true,
+    });
+  });
+});
+
+describe("統合テスト - メトリクス", () => {
+  it("Toolの呼び出し回数・処理時間とキャッシュの参照を記録する", async () => {
+    const labels = { tool: "get_haiku_monuments_geojson", status: "success" };
+    const callsBefore = toolCallsTotal.get(labels);
+    const durationsBefore = toolCallDuration.count({
+      tool: "get_haiku_monuments_geojson",
+    });
+    const lookupsBefore =
+      cacheRequestsTotal.get({ result: "hit" }) +
+      cacheRequestsTotal.get({ result: "miss" });
+
+    const client = await connectClient();
+    await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 3 },
+    });
+
+    expect(toolCallsTotal.get(labels)).toBe(callsBefore + 1);
+    expect(
+      toolCallDuration.count({ tool: "get_haiku_monuments_geojson" }),
+    ).toBe(durationsBefore + 1);
+    expect(
+      cacheRequestsTotal.get({ result: "hit" }) +
+        cacheRequestsTotal.get({ result: "miss" }),
+    ).toBeGreaterThan(lookupsBefore);
+    expect(renderMetrics()).toContain(
+      'kuhi_tool_calls_total{tool="get_haiku_monuments_geojson",status="success"}',
+    );
+  });
+});
+
+describe("統合テスト - ログ通知", () => {
+  function failOnce() {
+    let attempts = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", () => {
+        attempts++;
+        return attempts === 1
+          ? HttpResponse.error()
+          : HttpResponse.json(mockMonuments);
+      }),
+    );
+  }
+
+  async function collectLogs() {
+    const client = await connectClient();
+    const messages: LoggingMessageNotification["params"][] = [];
+    client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        messages.push(notification.params);
+      },
+    );
+    return { client, messages };
+  }
+
+  it("Tool実行中のリトライの警告をnotifications/messageで通知する", async () => {
+    failOnce();
+    const { client, messages } = await collectLogs();
+
+    const result = await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 4 },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(messages).toContainEqual({
+      level: "warning",
+      logger: "api",
+      data: expect.objectContaining({
+        message: "上流 API へのリクエストを再試行します",
+        tool: "get_haiku_monuments_geojson",
+        attempt: 1,
+        error: expect.not.objectContaining({ stack: expect.anything() }),
+      }),
+    });
+  });
+
+  it("同時に実行したToolには共有したリクエストのログをそれぞれの呼び出しとして通知する", async () => {
+    let attempts = 0;
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", async () => {
+        attempts++;
+        // 2つ目の呼び出しが同じリクエストに合流するまで応答しない
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return attempts === 1
+          ? HttpResponse.error()
+          : HttpResponse.json(mockMonuments);
+      }),
+    );
+    const first = await collectLogs();
+    const second = await collectLogs();
+
+    await Promise.all(
+      [first, second].map(({ client }) =>
+        client.callTool({
+          name: "get_haiku_monuments_geojson",
+          arguments: { limit: 8 },
+        }),
+      ),
+    );
+
+    expect(attempts).toBe(2);
+    const correlationIds = [first, second].map(({ messages }) => {
+      expect(messages).toContainEqual(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            message: "上流 API へのリクエストを再試行します",
+          }),
+        }),
+      );
+      const ids = new Set(
+        messages.map(
+          ({ data }) => (data as { correlation_id?: unknown }).correlation_id,
+        ),
+      );
+      expect(ids.size).toBe(1);
+      return [...ids][0];
+    });
+    expect(correlationIds[0]).not.toBe(correlationIds[1]);
+  });
+
+  it("logging/setLevelで指定したレベル未満は通知しない", async () => {
+    failOnce();
+    const { client, messages } = await collectLogs();
+    await client.setLoggingLevel("error");
+
+    await client.callTool({
+      name: "get_haiku_monuments_geojson",
+      arguments: { limit: 5 },
+    });
+
+    expect(messages).toEqual([]);
+  });
+});
+
+describe("統合テスト - 進捗通知と取り消し", () => {
+  // 250件を100件ずつのページで返す
+  function servePages(onRequest: () => void = () => {}) {
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", ({ request }) => {
+        onRequest();
+        const url = new URL(request.url);
+        const offset = Number(url.searchParams.get("offset") ?? 0);
+        const count = Math.max(0, Math.min(100, 250 - offset));
+        return HttpResponse.json(
+          Array.from({ length: count }, (_, index) => ({
+            ...mockMonuments[0],
+            id: 10000 + offset + index,
+          })),
+        );
+      }),
+    );
+  }
+
+  it("progressTokenを指定すると全件取得の進捗をnotifications/progressで通知する", async () => {
+    servePages();
+    const client = await connectClient();
+    const progress: Progress[] = [];
+
+    const result = await client.callTool(
+      {
+        name: "search_monuments_in_area",
+        arguments: { bbox: "135,34,136,35", limit: 1000 },
+      },
+      CallToolResultSchema,
+      { onprogress: (event) => progress.push(event) },
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(progress.map(({ progress }) => progress)).toEqual([100, 200, 250]);
+    expect(progress[0]).toMatchObject({
+      total: 1000,
+      message: "句碑を取得中: 100件（1ページ目）",
+    });
+  });
+
+  it("リクエストを取り消すと以降のページを取得しない", async () => {
+    let requests = 0;
+    const controller = new AbortController();
+    servePages(() => {
+      requests++;
+    });
+    const client = await connectClient();
+
+    await expect(
+      client.callTool(
+        {
+          name: "search_monuments_in_area",
+          arguments: { bbox: "136,34,137,35", limit: 1000 },
+        },
+        CallToolResultSchema,
+        {
+          signal: controller.signal,
+          onprogress: () => controller.abort("取り消し"),
+        },
+      ),
+    ).rejects.toThrow();
+
+    // 取り消し通知がサーバーに届き、待機中のページ取得が打ち切られるまで待つ
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(requests).toBe(1);
+    expect(
+      toolCallsTotal.get({
+        tool: "search_monuments_in_area",
+        status: "cancelled",
+      }),
+    ).toBe(1);
+  });
+});
+
+describe("統合テスト - 更新情報", () => {
+  it("期間内に登録された句碑を新規として俳人で絞り込んで返す", async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "list_recent_monument_changes",
+      arguments: { since: "2024-12-31", poet_name: "芭蕉" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      since: "2024-12-31",
+      total_added: 1,
+      total_updated: 0,
+      added: [{ id: 1 }],
+      updated: [],
+    });
+  });
+
+  it("同期で更新を検出した句碑は変更された項目を返す", async () => {
+    configureMonumentStore({ syncIntervalMs: 0 });
+    const client = await connectClient();
+    const args = { since: "2025-02-01" };
+
+    const before = await client.callTool({
+      name: "list_recent_monument_changes",
+      arguments: args,
+    });
+    expect(before.content).toEqual([
+      {
+        type: "text",
+        text: "2025-02-01 以降に追加・更新された句碑はありません。",
+      },
+    ]);
+
+    const changed = {
+      ...mockMonuments[0],
+      material: "花崗岩",
+      updated_at: "2025-03-01 00:00:00",
+    };
+    server.use(
+      http.get("https://api.kuhi.jp/monuments", ({ request }) => {
+        const since = new URL(request.url).searchParams.get("updated_at_gt");
+        return HttpResponse.json(
+          [changed, mockMonuments[1]].filter(
+            (m) => since === null || (m?.updated_at ?? "") > since,
+          ),
+        );
+      }),
+    );
+
+    const result = await client.callTool({
+      name: "list_recent_monument_changes",
+      arguments: args,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      total_added: 0,
+      total_updated: 1,
+      updated: [
+        {
+          monument: { id: 1, material: "花崗岩" },
+          changes: [
+            { field: "material", label: "材質", before: null, after: "花崗岩" },
+          ],
+        },
+      ],
+    });
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: expect.stringContaining("   - 材質: （なし） → 花崗岩"),
+      },
+    ]);
+  });
+
+  it("解釈できない日時はエラー結果を返す", async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "list_recent_monument_changes",
+      arguments: { since: "先週" },
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+import fs from "node:fs/promises";
+import type { IncomingMessage } from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { ApiKeyAuthenticator, loadApiKeysFile } from "../../src/server/auth.js";
+
+const FULL_KEY = "full-access-key-0123456789";
+const LIMITED_KEY = "limited-access-key-0123456789";
+
+const authenticator = new ApiKeyAuthenticator([
+  { name: "admin", key: FULL_KEY },
+  {
+    name: "map-widget",
+    key: LIMITED_KEY,
+    scopes: ["tools"],
+    tools: ["search_monuments_in_area"],
+  },
+]);
+
+function requestWith(headers: IncomingMessage["headers"]): IncomingMessage {
+  return { headers } as IncomingMessage;
+}
+
+describe("ApiKeyAuthenticator.authenticate", () => {
+  it("Bearerトークンで認証する", () => {
+    expect(
+      authenticator.authenticate(
+        requestWith({ authorization: `Bearer ${FULL_KEY}` }),
+      ),
+    ).toMatchObject({ name: "admin", scopes: ["*"] });
+  });
+
+  it("X-API-Keyヘッダーで認証する", () => {
+    expect(
+      authenticator.authenticate(requestWith({ "x-api-key": LIMITED_KEY })),
+    ).toMatchObject({ name: "map-widget" });
+  });
+
+  it("資格情報が無いか不正な場合はnullを返す", () => {
+    expect(authenticator.authenticate(requestWith({}))).toBeNull();
+    expect(
+      authenticator.authenticate(
+        requestWith({ authorization: "Bearer wrong-key" }),
+      ),
+    ).toBeNull();
+    expect(
+      authenticator.authenticate(
+        requestWith({ authorization: `Basic ${FULL_KEY}` }),
+      ),
+    ).toBeNull();
+  });
+});
+
+function principalFor(key: string): AuthPrincipal {
+  const principal = authenticator.authenticate(
+    requestWith({ authorization: `Bearer ${key}` }),
+  );
+  if (!principal) {
+    throw new Error(`API key was not accepted: ${key}`);
+  }
+  return principal;
+}
+
+describe("ApiKeyAuthenticator.authorize", () => {
+  const admin = principalFor(FULL_KEY);
+  const limited = principalFor(LIMITED_KEY);
+
+  it("全権限のキーはすべてのメソッドを許可する", () => {
+    expect(
+      authenticator.authorize(admin, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "resources/read",
+        params: { uri: "kuhi://monuments/1" },
+      }),
+    ).toBeNull();
+  });
+
+  it("スコープ外のメソッドを拒否する", () => {
+    expect(
+      authenticator.authorize(limited, {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "prompts/get",
+        params: { name: "plan_ginko_walk" },
+      }),
+    ).toMatchObject({ id: 7, message: expect.stringContaining("prompts") });
+  });
+
+  it("許可リストに無いToolの呼び出しを拒否する", () => {
+    expect(
+      authenticator.authorize(limited, {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "search_monuments_in_area", arguments: {} },
+      }),
+    ).toBeNull();
+    expect(
+      authenticator.authorize(limited, [
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        {
+          jsonrpc: "2.0",
+          id: 3,
+          method: "tools/call",
+          params: { name: "analyze_monuments_statistics" },
+        },
+      ]),
+    ).toMatchObject({
+      id: 3,
+      message: expect.stringContaining("analyze_monuments_statistics"),
+    });
+  });
+
+  it("初期化や通知はスコープに関係なく許可する", () => {
+    expect(
+      authenticator.authorize(limited, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {},
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("loadApiKeysFile", () => {
+  it("定義ファイルを検証して読み込む", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "kuhi-auth-"));
+    const valid = path.join(dir, "keys.json");
+    const invalid = path.join(dir, "invalid.json");
+    await fs.writeFile(
+      valid,
+      JSON.stringify({
+        keys: [{ name: "reader", key: LIMITED_KEY, scopes: ["resources"] }],
+      }),
+    );
+    await fs.writeFile(
+      invalid,
+      JSON.stringify({
+        keys: [{ name: "x", key: "short", scopes: ["admin"] }],
+      }),
+    );
+
+    try {
+      await expect(loadApiKeysFile(valid)).resolves.toEqual([
+        { name: "reader", key: LIMITED_KEY, scopes: ["resources"] },
+      ]);
+      await expect(loadApiKeysFile(invalid)).rejects.toThrow(
+        /Invalid API keys file/,
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
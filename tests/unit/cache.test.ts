@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCacheTtl } from "../../src/api.js";
+import {
+  FileCacheBackend,
+  MemoryCacheBackend,
+  createCacheTtlFromEnv,
+  parseCacheTtlByEndpoint,
+} from "../../src/cache.js";
+import { CONFIG } from "../../src/config.js";
+
+describe("Cache", () => {
+  describe("MemoryCacheBackend", () => {
+    it("保存したエントリを取得できる", async () => {
+      const backend = new MemoryCacheBackend();
+      await backend.set("key", { data: { id: 1 }, timestamp: 100 });
+
+      expect(await backend.get("key")).toEqual({
+        data: { id: 1 },
+        timestamp: 100,
+      });
+    });
+
+    it("容量上限を超えると最終アクセスが古いものから削除する", async () => {
+      vi.useFakeTimers();
+      const backend = new MemoryCacheBackend(100);
+      for (const key of "abcdefghij") {
+        await backend.set(key, { data: "x".repeat(8), timestamp: 0 });
+        vi.advanceTimersByTime(1);
+      }
+      await backend.get("a");
+      vi.advanceTimersByTime(1);
+      await backend.set("k", { data: "x".repeat(8), timestamp: 0 });
+      vi.useRealTimers();
+
+      expect(await backend.get("a")).not.toBeNull();
+      expect(await backend.get("b")).toBeNull();
+      expect(await backend.get("k")).not.toBeNull();
+      expect(backend.stats()).toEqual({
+        entries: 10,
+        bytes: 100,
+        evictions: 1,
+      });
+    });
+  });
+
+  describe("FileCacheBackend", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "kuhi-cache-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("再起動後も同じディレクトリからエントリを取得できる", async () => {
+      const key = 'https://api.kuhi.jp/monuments:{"limit":"100"}';
+      await new FileCacheBackend(directory).set(key, {
+        data: [{ id: 1 }],
+        timestamp: 1234,
+      });
+
+      const restarted = new FileCacheBackend(directory);
+      expect(await restarted.get(key)).toEqual({
+        data: [{ id: 1 }],
+        timestamp: 1234,
+      });
+    });
+
+    it("条件付きリクエストに使う検証子も保存する", async () => {
+      await new FileCacheBackend(directory).set("key", {
+        data: [],
+        timestamp: 1,
+        etag: '"abc"',
+        lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+      });
+
+      expect(await new FileCacheBackend(directory).get("key")).toEqual({
+        data: [],
+        timestamp: 1,
+        etag: '"abc"',
+        lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+      });
+    });
+
+    it("同じキーへの並行した書き込みはどちらかの内容で完了する", async () => {
+      const backend = new FileCacheBackend(directory);
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          backend.set("key", { data: "x".repeat(i * 10), timestamp: i }),
+        ),
+      );
+
+      const entry = await backend.get<string>("key");
+      expect(entry?.data).toBe("x".repeat((entry?.timestamp ?? 0) * 10));
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+      const { size } = await fs.stat(path.join(directory, files[0] ?? ""));
+      expect(backend.stats()).toMatchObject({ entries: 1, bytes: size });
+    });
+
+    it("削除したエントリは取得できない", async () => {
+      const backend = new FileCacheBackend(directory);
+      await backend.set("key", { data: 1, timestamp: 0 });
+      await backend.delete("key");
+
+      expect(await backend.get("key")).toBeNull();
+      expect(await fs.readdir(directory)).toHaveLength(0);
+    });
+
+    it("ディスク容量の上限を超えないよう古いファイルを削除する", async () => {
+      const backend = new FileCacheBackend(directory, 1000);
+      for (let i = 0; i < 20; i++) {
+        await backend.set(`key-${i}`, { data: "x".repeat(50), timestamp: 0 });
+      }
+
+      const files = await fs.readdir(directory);
+      const sizes = await Promise.all(
+        files.map((file) => fs.stat(path.join(directory, file))),
+      );
+      const total = sizes.reduce((sum, stat) => sum + stat.size, 0);
+
+      expect(total).toBeLessThanOrEqual(1000);
+      expect(await backend.get("key-19")).not.toBeNull();
+      expect(await backend.get("key-0")).toBeNull();
+    });
+  });
+
+  describe("getCacheTtl", () => {
+    it("エンドポイント別の有効期間を返す", () => {
+      expect(getCacheTtl("/poets")).toBe(3600000);
+      expect(getCacheTtl("/poets/1/monuments")).toBe(3600000);
+    });
+
+    it("未設定のエンドポイントは既定の有効期間を返す", () => {
+      expect(getCacheTtl("/monuments")).toBe(CONFIG.CACHE_DURATION);
+    });
+  });
+
+  describe("KUHI_CACHE_TTL", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("エンドポイント=秒 のカンマ区切りをミリ秒の有効期間にする", () => {
+      expect(
+        parseCacheTtlByEndpoint("/monuments=60, /poets/1/monuments=0"),
+      ).toEqual({ "/monuments": 60000, "/poets/1/monuments": 0 });
+    });
+
+    it("未知のエンドポイントや不正な秒数はエラーにする", () => {
+      expect(() => parseCacheTtlByEndpoint("/unknown=60")).toThrow(
+        "Invalid cache TTL: /unknown=60",
+      );
+      expect(() => parseCacheTtlByEndpoint("monuments=60")).toThrow();
+      expect(() => parseCacheTtlByEndpoint("/monuments=-1")).toThrow();
+      expect(() => parseCacheTtlByEndpoint("/monuments=1.5")).toThrow();
+      expect(() => parseCacheTtlByEndpoint("/monuments")).toThrow();
+    });
+
+    it("既定の有効期間のうち指定したものだけを上書きする", () => {
+      vi.stubEnv("KUHI_CACHE_TTL", "/poets=86400");
+
+      expect(createCacheTtlFromEnv()).toMatchObject({
+        "/poets": 86400000,
+        "/sources": 3600000,
+        "/locations": 1800000,
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker } from "../../src/circuit-breaker.js";
+
+function createBreaker() {
+  const clock = { now: 0 };
+  const breaker = new CircuitBreaker({
+    failureThreshold: 3,
+    cooldownMs: 10000,
+    now: () => clock.now,
+  });
+  return { breaker, clock };
+}
+
+describe("CircuitBreaker", () => {
+  it("連続した失敗が閾値に達すると遮断する", () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.tryAcquire()).toEqual({ allowed: true });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.tryAcquire()).toEqual({
+      allowed: false,
+      retryAfterMs: 10000,
+    });
+  });
+
+  it("成功すると連続失敗の回数をリセットする", () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("待機時間が過ぎると1件だけ試行を許可し、成功すれば元に戻す", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    clock.now = 4000;
+    expect(breaker.tryAcquire()).toEqual({
+      allowed: false,
+      retryAfterMs: 6000,
+    });
+
+    clock.now = 10000;
+    expect(breaker.state).toBe("half_open");
+    expect(breaker.tryAcquire()).toEqual({ allowed: true });
+    expect(breaker.tryAcquire().allowed).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("試行が失敗すると再び遮断する", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock.now = 10000;
+
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+    clock.now = 15000;
+    expect(breaker.tryAcquire()).toEqual({
+      allowed: false,
+      retryAfterMs: 5000,
+    });
+  });
+
+  it("中断された試行は試行枠を返す", () => {
+    const { breaker, clock } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock.now = 10000;
+
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.tryAcquire()).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamServerError,
+  ValidationFailedError,
+} from "../../src/errors.js";
+import {
+  describeToolError,
+  toolErrorResult,
+} from "../../src/server/tools/errors.js";
+
+describe("APIのエラー", () => {
+  it("ステータス・エンドポイント・再試行の可否を持つ", () => {
+    const error = new UpstreamServerError("/monuments", 503, "unavailable");
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      name: "UpstreamServerError",
+      code: "UPSTREAM_ERROR",
+      endpoint: "/monuments",
+      status: 503,
+      retryable: true,
+      message: "API Error (503): unavailable",
+    });
+  });
+
+  it("再試行しても結果が変わらないエラーはretryableにしない", () => {
+    expect(new NotFoundError("/monuments", 1).retryable).toBe(false);
+    expect(new ValidationFailedError("/monuments", "invalid").retryable).toBe(
+      false,
+    );
+    expect(
+      new ApiError("API Error (400): bad", { endpoint: "/poets", status: 400 })
+        .retryable,
+    ).toBe(false);
+    expect(new TimeoutError("/monuments", 30000).retryable).toBe(true);
+    expect(new NetworkError("/monuments", new TypeError("x")).retryable).toBe(
+      true,
+    );
+  });
+});
+
+describe("describeToolError", () => {
+  it("存在しないIDを種類つきで伝える", () => {
+    expect(
+      describeToolError(new NotFoundError("/monuments", 123, "/monuments/:id")),
+    ).toBe("句碑ID 123 は存在しません");
+    expect(describeToolError(new NotFoundError("/poets", 7))).toBe(
+      "俳人ID 7 は存在しません",
+    );
+  });
+
+  it("エラーの種類ごとに原因と対処を伝える", () => {
+    expect(describeToolError(new RateLimitedError("/monuments", 30))).toBe(
+      "句碑 API の利用制限に達しました。30秒後に再度お試しください",
+    );
+    expect(
+      describeToolError(new UpstreamServerError("/monuments", 502, "")),
+    ).toContain("サーバーエラーが発生しました（HTTP 502）");
+    expect(describeToolError(new TimeoutError("/monuments", 30000))).toContain(
+      "30秒以内に応答がありませんでした",
+    );
+    expect(
+      describeToolError(new ValidationFailedError("/monuments", "bad json")),
+    ).toBe("句碑 API から想定外の形式のデータが返されました");
+    expect(
+      describeToolError(new NetworkError("/monuments", new TypeError("x"))),
+    ).toContain("接続できませんでした");
+  });
+
+  it("APIのエラー以外はメッセージをそのまま使う", () => {
+    expect(describeToolError(new Error("入力が不正です"))).toBe(
+      "入力が不正です",
+    );
+    expect(describeToolError("失敗")).toBe("失敗");
+  });
+
+  it("toolErrorResultはisErrorの結果を返す", () => {
+    expect(toolErrorResult(new NotFoundError("/monuments", 5))).toEqual({
+      content: [{ type: "text", text: "エラー: 句碑ID 5 は存在しません" }],
+      isError: true,
+    });
+  });
+});
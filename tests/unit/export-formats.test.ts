@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  escapeCsvField,
+  escapeXml,
+  inferExportFormat,
+  neutralizeCsvFormula,
+  serializeFeatureCollection,
+} from "../../src/export-formats.js";
+import type { GeoJSONFeatureCollection } from "../../src/types.js";
+
+const collection: GeoJSONFeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [136.6922, 35.0655] },
+      properties: {
+        id: 1,
+        inscription: "古池や蛙飛こむ水のおと",
+        canonical_name: "芭蕉句碑 <蛙>",
+        commentary: '「古池」の句。"蕉風"開眼の作、と伝わる\n二行目',
+        media_url: "https://example.com/a.jpg?x=1&y=2",
+        poet_name: "松尾芭蕉",
+        prefecture: "三重県",
+        region: "東海",
+        address: "三重県桑名市",
+        place_name: null,
+      },
+    },
+  ],
+};
+
+describe("escapeXml", () => {
+  it("特殊文字をエスケープし日本語はそのまま残す", () => {
+    expect(escapeXml(`句碑 <"芭蕉"> & '蕪村'`)).toBe(
+      "句碑 &lt;&quot;芭蕉&quot;&gt; &amp; &apos;蕪村&apos;",
+    );
+  });
+
+  it("XMLで使えない制御文字を取り除く", () => {
+    expect(escapeXml("古池\u0000や\u000B")).toBe("古池や");
+  });
+});
+
+describe("escapeCsvField", () => {
+  it("カンマ・引用符・改行を含む場合のみクォートする", () => {
+    expect(escapeCsvField("松尾芭蕉")).toBe("松尾芭蕉");
+    expect(escapeCsvField("古池や、蛙")).toBe("古池や、蛙");
+    expect(escapeCsvField('a,"b"\nc')).toBe('"a,""b""\nc"');
+  });
+});
+
+describe("neutralizeCsvFormula", () => {
+  it("数式として解釈される文字で始まるテキストの先頭に ' を付ける", () => {
+    expect(neutralizeCsvFormula('=HYPERLINK("https://example.com")')).toBe(
+      `'=HYPERLINK("https://example.com")`,
+    );
+    expect(neutralizeCsvFormula("+1")).toBe("'+1");
+    expect(neutralizeCsvFormula("-1")).toBe("'-1");
+    expect(neutralizeCsvFormula("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(neutralizeCsvFormula("古池や")).toBe("古池や");
+  });
+});
+
+describe("inferExportFormat", () => {
+  it("拡張子から形式を推定する", () => {
+    expect(inferExportFormat("out/kuhi.KML")).toBe("kml");
+    expect(inferExportFormat("kuhi.gpx")).toBe("gpx");
+    expect(inferExportFormat("kuhi.csv")).toBe("csv");
+    expect(inferExportFormat("kuhi.json")).toBe("geojson");
+    expect(inferExportFormat("kuhi")).toBe("geojson");
+  });
+});
+
+describe("serializeFeatureCollection", () => {
+  it("KMLのPlacemarkに座標とプロパティを出力する", () => {
+    const kml = serializeFeatureCollection(collection, "kml");
+
+    expect(kml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(kml).toContain("<name>芭蕉句碑 &lt;蛙&gt;</name>");
+    expect(kml).toContain("<coordinates>136.6922,35.0655,0</coordinates>");
+    expect(kml).toContain(
+      '<Data name="poet_name"><value>松尾芭蕉</value></Data>',
+    );
+    expect(kml).toContain('<Data name="place_name"><value></value></Data>');
+  });
+
+  it("GPXのwptに緯度経度とプロパティを出力する", () => {
+    const gpx = serializeFeatureCollection(collection, "gpx");
+
+    expect(gpx).toContain('<wpt lat="35.0655" lon="136.6922">');
+    expect(gpx).toContain(
+      '<link href="https://example.com/a.jpg?x=1&amp;y=2"/>',
+    );
+    expect(gpx).toContain("<kuhi:prefecture>三重県</kuhi:prefecture>");
+  });
+
+  it("CSVはBOM付き・CRLF改行でフィールドをクォートする", () => {
+    const csv = serializeFeatureCollection(collection, "csv");
+    const [header, row] = csv.slice(1).split("\r\n");
+
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(header).toBe(
+      "id,inscription,canonical_name,commentary,media_url,poet_name,prefecture,region,address,place_name,longitude,latitude",
+    );
+    expect(row).toBe(
+      '1,古池や蛙飛こむ水のおと,芭蕉句碑 <蛙>,"「古池」の句。""蕉風""開眼の作、と伝わる\n二行目",https://example.com/a.jpg?x=1&y=2,松尾芭蕉,三重県,東海,三重県桑名市,,136.6922,35.0655',
+    );
+  });
+
+  it("CSVはテキストの数式を無効化し、座標はそのまま出力する", () => {
+    const feature = collection.features[0] as (typeof collection.features)[0];
+    const csv = serializeFeatureCollection(
+      {
+        type: "FeatureCollection",
+        features: [
+          {
+            ...feature,
+            geometry: { type: "Point", coordinates: [-122.5, 37.7] },
+            properties: { ...feature.properties, canonical_name: "=1+1" },
+          },
+        ],
+      },
+      "csv",
+    );
+    const [, row] = csv.slice(1).split("\r\n");
+
+    expect(row).toContain(",'=1+1,");
+    expect(row?.endsWith(",-122.5,37.7")).toBe(true);
+  });
+
+  it("GeoJSONは整形済みJSONを出力する", () => {
+    expect(
+      JSON.parse(serializeFeatureCollection(collection, "geojson")),
+    ).toEqual(collection);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatBbox,
+  getAreaGeometryBbox,
+  isPointInAreaGeometry,
+} from "../../src/geometry.js";
+import type { GeoJSONAreaGeometry } from "../../src/types.js";
+
+// 外周 136.0〜137.0 / 35.0〜36.0、中央に 136.4〜136.6 / 35.4〜35.6 の穴
+const squareWithHole: GeoJSONAreaGeometry = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [136, 35],
+      [137, 35],
+      [137, 36],
+      [136, 36],
+      [136, 35],
+    ],
+    [
+      [136.4, 35.4],
+      [136.6, 35.4],
+      [136.6, 35.6],
+      [136.4, 35.6],
+      [136.4, 35.4],
+    ],
+  ],
+};
+
+const twoTriangles: GeoJSONAreaGeometry = {
+  type: "MultiPolygon",
+  coordinates: [
+    [
+      [
+        [135, 34],
+        [135.5, 34],
+        [135, 34.5],
+        [135, 34],
+      ],
+    ],
+    [
+      [
+        [139, 35],
+        [140, 35],
+        [139, 36],
+        [139, 35],
+      ],
+    ],
+  ],
+};
+
+describe("isPointInAreaGeometry", () => {
+  it("ポリゴンの内側と外側を判定する", () => {
+    expect(isPointInAreaGeometry(136.2, 35.2, squareWithHole)).toBe(true);
+    expect(isPointInAreaGeometry(137.2, 35.2, squareWithHole)).toBe(false);
+  });
+
+  it("穴の内側はポリゴン外として扱う", () => {
+    expect(isPointInAreaGeometry(136.5, 35.5, squareWithHole)).toBe(false);
+  });
+
+  it("MultiPolygon はいずれかのポリゴンに含まれれば内側とする", () => {
+    expect(isPointInAreaGeometry(135.1, 34.1, twoTriangles)).toBe(true);
+    expect(isPointInAreaGeometry(139.2, 35.2, twoTriangles)).toBe(true);
+    expect(isPointInAreaGeometry(135.4, 34.4, twoTriangles)).toBe(false);
+  });
+});
+
+describe("getAreaGeometryBbox", () => {
+  it("外周リングから外接矩形を求める", () => {
+    expect(getAreaGeometryBbox(squareWithHole)).toEqual({
+      minLongitude: 136,
+      minLatitude: 35,
+      maxLongitude: 137,
+      maxLatitude: 36,
+    });
+  });
+
+  it("MultiPolygon 全体を囲む矩形を求める", () => {
+    expect(formatBbox(getAreaGeometryBbox(twoTriangles))).toBe("135,34,140,36");
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  type LogRecord,
+  Logger,
+  type LoggerOptions,
+  runWithLogContext,
+  runWithLogSink,
+  serializeError,
+} from "../../src/logger.js";
+
+function createLogger(options: LoggerOptions = {}) {
+  const lines: string[] = [];
+  const logger = new Logger({
+    level: "debug",
+    format: "json",
+    write: (line) => {
+      lines.push(line);
+    },
+    ...options,
+  });
+  const entries = () =>
+    lines.map((line) => JSON.parse(line) as Record<string, unknown>);
+  return { logger, lines, entries };
+}
+
+describe("serializeError", () => {
+  it("name・message・stack・causeを含める", () => {
+    const cause = new TypeError("fetch failed");
+    const error = new Error("Failed after 3 attempts", { cause });
+
+    expect(serializeError(error)).toMatchObject({
+      name: "Error",
+      message: "Failed after 3 attempts",
+      stack: expect.stringContaining("Failed after 3 attempts"),
+      cause: { name: "TypeError", message: "fetch failed" },
+    });
+  });
+});
+
+describe("Logger", () => {
+  it("JSON形式では1行1エントリで出力しフィールドを展開する", () => {
+    const { logger, lines, entries } = createLogger();
+
+    logger.warn("再試行します", { attempt: 2, error: new Error("timeout") });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.endsWith("\n")).toBe(true);
+    expect(entries()[0]).toMatchObject({
+      level: "warn",
+      message: "再試行します",
+      attempt: 2,
+      error: { name: "Error", message: "timeout" },
+      time: expect.any(String),
+    });
+  });
+
+  it("フィールドで予約したキーを上書きしない", () => {
+    const { logger, entries } = createLogger();
+
+    runWithLogContext({ time: "context" }, () => {
+      logger.info("受け付けました", { level: "error", message: "field" });
+    });
+
+    expect(entries()[0]).toMatchObject({
+      level: "info",
+      message: "受け付けました",
+      time: expect.not.stringMatching("context"),
+    });
+  });
+
+  it("オブジェクト以外の引数はargsにまとめる", () => {
+    const { logger, entries } = createLogger();
+
+    logger.error("失敗しました", "key", new RangeError("out of range"));
+
+    expect(entries()[0]).toMatchObject({
+      args: ["key", { name: "RangeError", message: "out of range" }],
+    });
+  });
+
+  it("子ロガーはバインドしたフィールドと出力先を引き継ぐ", () => {
+    const { logger, entries } = createLogger();
+
+    logger.child({ module: "api" }).child({ component: "retry" }).info("ok");
+
+    expect(entries()[0]).toMatchObject({ module: "api", component: "retry" });
+  });
+
+  it("非同期処理を含めてログコンテキストの相関IDを付与する", async () => {
+    const { logger, entries } = createLogger();
+
+    await runWithLogContext({ request_id: "req-1" }, async () => {
+      await runWithLogContext({ correlation_id: "call-1" }, async () => {
+        await Promise.resolve();
+        logger.info("inner");
+      });
+      logger.info("outer");
+    });
+    logger.info("none");
+
+    const [inner, outer, none] = entries();
+    expect(inner).toMatchObject({
+      request_id: "req-1",
+      correlation_id: "call-1",
+    });
+    expect(outer).toMatchObject({ request_id: "req-1" });
+    expect(outer).not.toHaveProperty("correlation_id");
+    expect(none).not.toHaveProperty("request_id");
+  });
+
+  it("ログレベル未満は出力しない", () => {
+    const { logger, lines } = createLogger({ level: "warn" });
+
+    logger.info("skip");
+    logger.child({ module: "x" }).debug("skip");
+
+    expect(lines).toHaveLength(0);
+  });
+
+  it("テキスト形式でもErrorを空のオブジェクトにしない", () => {
+    const { logger, lines } = createLogger({ format: "text" });
+
+    logger.error("失敗しました", { error: new Error("boom") });
+
+    expect(lines[0]).toContain('"message":"boom"');
+  });
+});
+
+describe("runWithLogSink", () => {
+  it("ログレベルに関係なく出力先にフィールドを渡す", () => {
+    const { logger, lines } = createLogger({ level: "error" });
+    const records: LogRecord[] = [];
+
+    runWithLogSink(
+      (record) => {
+        records.push(record);
+      },
+      () => {
+        runWithLogContext({ correlation_id: "call-1" }, () => {
+          logger.child({ module: "api" }).warn("再試行します", { attempt: 1 });
+        });
+      },
+    );
+    logger.warn("出力先なし");
+
+    expect(lines).toHaveLength(0);
+    expect(records).toEqual([
+      {
+        level: "warn",
+        message: "再試行します",
+        context: { module: "api", correlation_id: "call-1" },
+        fields: { attempt: 1 },
+        args: [],
+      },
+    ]);
+  });
+});
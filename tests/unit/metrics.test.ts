@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  Counter,
+  Histogram,
+  endpointLabel,
+  renderMetrics,
+} from "../../src/metrics.js";
+
+describe("Counter", () => {
+  it("ラベルごとに加算してPrometheus形式で出力する", () => {
+    const counter = new Counter("test_requests_total", "Test requests");
+    counter.inc({ endpoint: "/monuments", status: "200" });
+    counter.inc({ endpoint: "/monuments", status: "200" });
+    counter.inc({ endpoint: '/a"b', status: "error" });
+
+    expect(counter.get({ status: "200", endpoint: "/monuments" })).toBe(2);
+    expect(counter.render()).toEqual([
+      "# HELP test_requests_total Test requests",
+      "# TYPE test_requests_total counter",
+      'test_requests_total{endpoint="/monuments",status="200"} 2',
+      'test_requests_total{endpoint="/a\\"b",status="error"} 1',
+    ]);
+  });
+});
+
+describe("Histogram", () => {
+  it("累積バケット・合計・件数を出力する", () => {
+    const histogram = new Histogram("test_duration_seconds", "Test", [0.1, 1]);
+    histogram.observe({ tool: "a" }, 0.05);
+    histogram.observe({ tool: "a" }, 0.5);
+    histogram.observe({ tool: "a" }, 3);
+
+    expect(histogram.render().slice(2)).toEqual([
+      'test_duration_seconds_bucket{tool="a",le="0.1"} 1',
+      'test_duration_seconds_bucket{tool="a",le="1"} 2',
+      'test_duration_seconds_bucket{tool="a",le="+Inf"} 3',
+      'test_duration_seconds_sum{tool="a"} 3.55',
+      'test_duration_seconds_count{tool="a"} 3',
+    ]);
+  });
+});
+
+describe("endpointLabel", () => {
+  it("IDを含まないラベルにする", () => {
+    expect(endpointLabel("/monuments")).toBe("/monuments");
+    expect(endpointLabel("/monuments", 12)).toBe("/monuments/:id");
+    expect(endpointLabel("/poets/3/monuments")).toBe("/poets/:id/monuments");
+  });
+});
+
+describe("renderMetrics", () => {
+  it("収集したメトリクスを追加で出力する", () => {
+    const text = renderMetrics([
+      {
+        name: "test_sessions",
+        help: "Active sessions",
+        type: "gauge",
+        samples: [[{}, 3]],
+      },
+    ]);
+
+    expect(text).toContain("# TYPE kuhi_tool_calls_total counter");
+    expect(text).toContain("# TYPE test_sessions gauge\ntest_sessions 3\n");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { diffMonuments } from "../../src/monument-diff.js";
+import type { Monument } from "../../src/types.js";
+import { mockMonuments } from "../fixtures/mock-data.js";
+
+const base = mockMonuments[0] as Monument;
+
+describe("diffMonuments", () => {
+  it("内容が変わった項目だけを変更前後の値とともに返す", () => {
+    const current = {
+      ...base,
+      material: "花崗岩",
+      updated_at: "2025-03-01 00:00:00",
+      poets: [],
+    } as Monument;
+
+    expect(diffMonuments(base, current)).toEqual([
+      { field: "material", label: "材質", before: null, after: "花崗岩" },
+      { field: "poets", label: "俳人", before: "松尾芭蕉", after: null },
+    ]);
+  });
+
+  it("設置場所は都道府県・市区町村・場所名・座標で比べる", () => {
+    const current = {
+      ...base,
+      locations: (base.locations ?? []).map((location) => ({
+        ...location,
+        place_name: "新しい場所",
+      })),
+    } as Monument;
+
+    const [change] = diffMonuments(base, current);
+
+    expect(change?.field).toBe("locations");
+    expect(change?.after).toContain("新しい場所");
+  });
+
+  it("更新日時だけが変わった場合は変更なしとする", () => {
+    expect(
+      diffMonuments(base, { ...base, updated_at: "2025-03-01 00:00:00" }),
+    ).toEqual([]);
+  });
+});
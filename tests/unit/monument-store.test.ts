@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import type { CrawlOptions } from "../../src/api.js";
+import { type MonumentQuery, MonumentStore } from "../../src/monument-store.js";
+import type { Monument } from "../../src/types.js";
+import { mockMonuments } from "../fixtures/mock-data.js";
+
+function monument(id: number, updatedAt: string, prefecture = "東京都") {
+  const base = mockMonuments[0] as Monument;
+  return {
+    ...base,
+    id,
+    updated_at: updatedAt,
+    locations: (base.locations ?? []).map((location) => ({
+      ...location,
+      prefecture,
+    })),
+  } as Monument;
+}
+
+// updated_at_gt だけを解釈する上流の代わり
+function createStore(initial: Monument[]) {
+  const upstream = { monuments: initial };
+  const clock = { now: 0 };
+  const queries: MonumentQuery[] = [];
+  let failure: Error | null = null;
+
+  const store = new MonumentStore({
+    syncIntervalMs: 1000,
+    reconcileIntervalMs: 10000,
+    now: () => clock.now,
+    crawl: async (query, crawl: CrawlOptions) => {
+      queries.push(query);
+      crawl.signal?.throwIfAborted();
+      if (failure) {
+        throw failure;
+      }
+      const { updated_at_gt: since } = query;
+      return upstream.monuments.filter(
+        (m) => since === undefined || m.updated_at > since,
+      );
+    },
+  });
+
+  return {
+    store,
+    upstream,
+    clock,
+    queries,
+    fail: (error: Error | null) => {
+      failure = error;
+    },
+  };
+}
+
+describe("MonumentStore", () => {
+  it("初回は全件を取得し、同期間隔内は上流にアクセスしない", async () => {
+    const { store, queries, clock } = createStore([
+      monument(1, "2025-01-01 00:00:00"),
+      monument(2, "2025-01-02 00:00:00"),
+    ]);
+
+    expect(await store.all()).toHaveLength(2);
+    clock.now = 999;
+    expect(await store.all()).toHaveLength(2);
+
+    expect(queries).toEqual([{}]);
+    expect(store.highWaterMark).toBe("2025-01-02 00:00:00");
+  });
+
+  it("同期間隔を過ぎると最高水位より後に更新された句碑だけを取得する", async () => {
+    const { store, upstream, queries, clock } = createStore([
+      monument(1, "2025-01-01 00:00:00"),
+      monument(2, "2025-01-02 00:00:00"),
+    ]);
+    await store.all();
+    const version = store.version;
+
+    upstream.monuments = [
+      monument(1, "2025-01-01 00:00:00"),
+      monument(2, "2025-02-01 00:00:00", "京都府"),
+      monument(3, "2025-02-02 00:00:00"),
+    ];
+    clock.now = 1000;
+
+    expect(await store.sync()).toEqual({
+      mode: "incremental",
+      added: 1,
+      updated: 1,
+      removed: 0,
+    });
+    expect(queries.at(-1)).toEqual({ updated_at_gt: "2025-01-01 23:59:00" });
+    expect(store.highWaterMark).toBe("2025-02-02 00:00:00");
+    expect(store.version).toBe(version + 1);
+    expect(await store.query({ prefecture: "京都府" })).toEqual([
+      upstream.monuments[1],
+    ]);
+    expect(store.previousVersionOf(2)?.updated_at).toBe("2025-01-02 00:00:00");
+    expect(store.previousVersionOf(3)).toBeUndefined();
+  });
+
+  it("最高水位と同じ日時で後から反映された句碑も差分の取得で取り込む", async () => {
+    const { store, upstream, clock } = createStore([
+      monument(1, "2025-01-02 00:00:00"),
+    ]);
+    await store.all();
+
+    upstream.monuments = [
+      monument(1, "2025-01-02 00:00:00"),
+      monument(2, "2025-01-02 00:00:00"),
+    ];
+    clock.now = 1000;
+
+    expect(await store.sync()).toEqual({
+      mode: "incremental",
+      added: 1,
+      updated: 0,
+      removed: 0,
+    });
+    expect(store.size).toBe(2);
+  });
+
+  it("突き合わせの間隔を過ぎると全件を取得して削除された句碑を取り除く", async () => {
+    const { store, upstream, queries, clock } = createStore([
+      monument(1, "2025-01-01 00:00:00"),
+      monument(2, "2025-01-02 00:00:00"),
+    ]);
+    await store.all();
+
+    upstream.monuments = [monument(1, "2025-01-01 00:00:00")];
+    clock.now = 1000;
+    await store.sync();
+    // 差分の取得では削除に気づけない
+    expect(store.size).toBe(2);
+
+    clock.now = 10000;
+    expect(await store.sync()).toEqual({
+      mode: "reconcile",
+      added: 0,
+      updated: 0,
+      removed: 1,
+    });
+    expect(queries.at(-1)).toEqual({});
+    expect((await store.all()).map((m) => m.id)).toEqual([1]);
+    expect(store.highWaterMark).toBe("2025-01-01 00:00:00");
+  });
+
+  it("検索条件を手元で評価し、件数の上限を適用する", async () => {
+    const { store } = createStore([
+      monument(1, "2025-01-01 00:00:00", "京都府"),
+      monument(2, "2025-01-02 00:00:00", "東京都"),
+      monument(3, "2025-01-03 00:00:00", "京都府"),
+    ]);
+
+    const results = await store.query({ prefecture: "京都府" }, 1);
+
+    expect(results.map((m) => m.id)).toEqual([1]);
+  });
+
+  it("同時に参照した呼び出しは同期を共有する", async () => {
+    const { store, queries } = createStore([
+      monument(1, "2025-01-01 00:00:00"),
+    ]);
+
+    const [first, second] = await Promise.all([store.all(), store.all()]);
+
+    expect(first).toEqual(second);
+    expect(queries).toHaveLength(1);
+  });
+
+  it("同期に失敗したときは前回同期した句碑を返し、次の参照で再び同期する", async () => {
+    const { store, queries, clock, fail } = createStore([
+      monument(1, "2025-01-01 00:00:00"),
+    ]);
+    await store.all();
+
+    fail(new Error("unavailable"));
+    clock.now = 1000;
+    expect((await store.all()).map((m) => m.id)).toEqual([1]);
+
+    fail(null);
+    await store.all();
+    expect(queries).toHaveLength(3);
+  });
+
+  it("初回の同期に失敗したときはエラーを送出する", async () => {
+    const { store, fail } = createStore([]);
+    fail(new Error("unavailable"));
+
+    await expect(store.all()).rejects.toThrow("unavailable");
+  });
+
+  it("中断された参照は前回の句碑を返さずに中断理由で reject する", async () => {
+    const { store, clock } = createStore([monument(1, "2025-01-01 00:00:00")]);
+    await store.all();
+    clock.now = 1000;
+
+    const controller = new AbortController();
+    controller.abort(new Error("取り消し"));
+
+    await expect(store.all({ signal: controller.signal })).rejects.toThrow(
+      "取り消し",
+    );
+  });
+});
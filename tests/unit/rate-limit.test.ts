@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  RateLimiter,
+  parseToolRateLimits,
+} from "../../src/server/rate-limit.js";
+
+function toolCall(id: number, name: string) {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name } };
+}
+
+function createLimiter(options: {
+  perMinute?: number;
+  tools?: Record<string, number>;
+  dailyQuota?: number;
+}) {
+  const clock = { now: Date.UTC(2026, 0, 1, 12) };
+  const limiter = new RateLimiter({
+    global: options.perMinute ? { perMinute: options.perMinute } : null,
+    tools: Object.fromEntries(
+      Object.entries(options.tools ?? {}).map(([name, perMinute]) => [
+        name,
+        { perMinute },
+      ]),
+    ),
+    dailyQuota: options.dailyQuota ?? null,
+    now: () => clock.now,
+  });
+  return { limiter, clock };
+}
+
+describe("RateLimiter", () => {
+  it("上限を超えたリクエストを拒否し、時間経過で回復する", () => {
+    const { limiter, clock } = createLimiter({ perMinute: 2 });
+    const request = { jsonrpc: "2.0", id: 1, method: "tools/list" };
+
+    expect(limiter.consume("ip:a", request).allowed).toBe(true);
+    expect(limiter.consume("ip:a", request).allowed).toBe(true);
+    expect(limiter.consume("ip:a", request)).toMatchObject({
+      allowed: false,
+      id: 1,
+      retryAfterSeconds: 30,
+    });
+    expect(limiter.consume("ip:b", request).allowed).toBe(true);
+
+    clock.now += 30000;
+    expect(limiter.consume("ip:a", request).allowed).toBe(true);
+  });
+
+  it("Toolごとの上限を全体の上限とは別に適用する", () => {
+    const { limiter } = createLimiter({
+      perMinute: 100,
+      tools: { analyze_monuments_statistics: 1 },
+    });
+
+    expect(
+      limiter.consume("key:a", toolCall(1, "analyze_monuments_statistics"))
+        .allowed,
+    ).toBe(true);
+    expect(
+      limiter.consume("key:a", toolCall(2, "analyze_monuments_statistics")),
+    ).toMatchObject({
+      allowed: false,
+      message: expect.stringContaining("analyze_monuments_statistics"),
+      retryAfterSeconds: 60,
+    });
+    expect(
+      limiter.consume("key:a", toolCall(3, "learn_about_monument")).allowed,
+    ).toBe(true);
+  });
+
+  it("バッチが上限を超える場合は全体を拒否してトークンを消費しない", () => {
+    const { limiter } = createLimiter({ perMinute: 2 });
+    const batch = [
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { jsonrpc: "2.0", id: 2, method: "prompts/list" },
+      { jsonrpc: "2.0", id: 3, method: "resources/list" },
+    ];
+
+    expect(limiter.consume("ip:a", batch).allowed).toBe(false);
+    expect(limiter.consume("ip:a", batch.slice(0, 2)).allowed).toBe(true);
+  });
+
+  it("通知とレスポンスは数えない", () => {
+    const { limiter } = createLimiter({ perMinute: 1 });
+
+    expect(
+      limiter.consume("ip:a", {
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      }).allowed,
+    ).toBe(true);
+    expect(
+      limiter.consume("ip:a", { jsonrpc: "2.0", id: 1, result: {} }).allowed,
+    ).toBe(true);
+    expect(limiter.consume("ip:a", toolCall(1, "x")).allowed).toBe(true);
+  });
+
+  it("1日あたりの上限を超えると翌日（UTC）まで拒否する", () => {
+    const { limiter, clock } = createLimiter({ dailyQuota: 2 });
+
+    limiter.consume("key:a", toolCall(1, "x"));
+    limiter.consume("key:a", toolCall(2, "x"));
+    expect(limiter.usedQuota("key:a")).toBe(2);
+    expect(limiter.consume("key:a", toolCall(3, "x"))).toMatchObject({
+      allowed: false,
+      message: expect.stringContaining("daily quota"),
+      retryAfterSeconds: 12 * 60 * 60,
+    });
+
+    clock.now += 12 * 60 * 60 * 1000;
+    expect(limiter.usedQuota("key:a")).toBe(0);
+    expect(limiter.consume("key:a", toolCall(4, "x")).allowed).toBe(true);
+  });
+});
+
+describe("parseToolRateLimits", () => {
+  it("name=件数 のカンマ区切りを解釈する", () => {
+    expect(
+      parseToolRateLimits(
+        "analyze_monuments_statistics=3, learn_about_monument=60",
+      ),
+    ).toEqual({
+      analyze_monuments_statistics: { perMinute: 3 },
+      learn_about_monument: { perMinute: 60 },
+    });
+    expect(() => parseToolRateLimits("analyze_monuments_statistics")).toThrow();
+  });
+});
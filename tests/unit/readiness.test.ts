@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type UpstreamProbeResult, setOfflineSnapshot } from "../../src/api.js";
+import { ReadinessProbe } from "../../src/server/readiness.js";
+import type { SnapshotBundle } from "../../src/snapshot.js";
+
+const OK: UpstreamProbeResult = {
+  ok: true,
+  statusCode: 200,
+  latencyMs: 12,
+  error: null,
+};
+
+function createProbe(results: UpstreamProbeResult[]) {
+  const clock = { now: Date.UTC(2026, 0, 1) };
+  let calls = 0;
+  const readiness = new ReadinessProbe({
+    probe: async () => {
+      const result = results[Math.min(calls, results.length - 1)] ?? OK;
+      calls++;
+      return result;
+    },
+    cacheDurationMs: 10000,
+    now: () => clock.now,
+  });
+  return { readiness, clock, calls: () => calls };
+}
+
+afterEach(() => {
+  setOfflineSnapshot(null);
+});
+
+describe("ReadinessProbe", () => {
+  it("上流が応答し検証が正常ならreadyを返す", async () => {
+    const { readiness } = createProbe([OK]);
+
+    const report = await readiness.check();
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.upstream).toMatchObject({ ok: true, latency_ms: 12 });
+    expect(report.checks.validation.healthy).toBe(true);
+    expect(report.checks.snapshot.enabled).toBe(false);
+  });
+
+  it("上流に接続できない場合はdegradedを返す", async () => {
+    const { readiness } = createProbe([
+      { ok: false, statusCode: null, latencyMs: 5000, error: "timeout" },
+    ]);
+
+    const report = await readiness.check();
+
+    expect(report.status).toBe("degraded");
+    expect(report.checks.upstream).toMatchObject({
+      ok: false,
+      error: "timeout",
+    });
+  });
+
+  it("上流の確認結果を一定期間再利用する", async () => {
+    const { readiness, clock, calls } = createProbe([OK]);
+
+    await Promise.all([readiness.check(), readiness.check()]);
+    await readiness.check();
+    expect(calls()).toBe(1);
+
+    clock.now += 10000;
+    await readiness.check();
+    expect(calls()).toBe(2);
+  });
+
+  it("オフラインスナップショット使用中は上流を確認せず経過時間を報告する", async () => {
+    const { readiness, calls } = createProbe([OK]);
+    setOfflineSnapshot({
+      format_version: 1,
+      created_at: "2025-12-31T00:00:00.000Z",
+      api_base_url: "https://api.kuhi.jp",
+      collections: {
+        monuments: [],
+        poets: [],
+        sources: [],
+        locations: [],
+        poems: [],
+        inscriptions: [],
+      },
+    } satisfies SnapshotBundle);
+
+    const report = await readiness.check();
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.upstream).toBeNull();
+    expect(report.checks.snapshot).toEqual({
+      enabled: true,
+      created_at: "2025-12-31T00:00:00.000Z",
+      age_seconds: 86400,
+    });
+    expect(calls()).toBe(0);
+  });
+});
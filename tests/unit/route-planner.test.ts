@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  ROUTE_DETOUR_FACTOR,
+  estimateTravelMinutes,
+  planItinerary,
+  planRoute,
+} from "../../src/route-planner.js";
+
+interface Point {
+  readonly id: number;
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
+// 経度方向に一直線に並んだ地点（順不同）
+const linePoints: Point[] = [
+  { id: 3, latitude: 35, longitude: 136.03 },
+  { id: 1, latitude: 35, longitude: 136.01 },
+  { id: 5, latitude: 35, longitude: 136.05 },
+  { id: 2, latitude: 35, longitude: 136.02 },
+  { id: 4, latitude: 35, longitude: 136.04 },
+];
+
+describe("planRoute", () => {
+  it("地点が無い場合は空のルートを返す", () => {
+    const route = planRoute([]);
+
+    expect(route.stops).toEqual([]);
+    expect(route.legs).toEqual([]);
+    expect(route.totalDistance).toBe(0);
+  });
+
+  it("出発地点が無い場合は端の地点から一直線に巡る", () => {
+    const route = planRoute(linePoints);
+    const ids = route.stops.map((p) => p.id);
+
+    expect([ids, [...ids].reverse()]).toContainEqual([1, 2, 3, 4, 5]);
+    expect(route.legs[0]?.from).toBeNull();
+    expect(route.legs[0]?.distance).toBe(0);
+  });
+
+  it("出発地点から近い順に巡る", () => {
+    const route = planRoute(linePoints, { latitude: 35, longitude: 136.06 });
+
+    expect(route.stops.map((p) => p.id)).toEqual([5, 4, 3, 2, 1]);
+    expect(route.legs[0]?.distance).toBeGreaterThan(0);
+  });
+
+  it("総距離は区間距離の合計と一致する", () => {
+    const route = planRoute(linePoints, { latitude: 35, longitude: 136 });
+    const sum = route.legs.reduce((total, leg) => total + leg.distance, 0);
+
+    expect(route.totalDistance).toBeCloseTo(sum, 6);
+  });
+
+  it("2-opt法で交差する経路を解消する", () => {
+    // 最近傍法では交差が生じる正方形の配置
+    const square: Point[] = [
+      { id: 1, latitude: 35, longitude: 136 },
+      { id: 2, latitude: 35.01, longitude: 136.01 },
+      { id: 3, latitude: 35, longitude: 136.01 },
+      { id: 4, latitude: 35.01, longitude: 136 },
+    ];
+    const route = planRoute(square, { latitude: 34.995, longitude: 136 });
+
+    const perimeterOrders = [
+      [1, 3, 2, 4],
+      [1, 4, 2, 3],
+    ];
+    expect(perimeterOrders).toContainEqual(route.stops.map((p) => p.id));
+  });
+});
+
+describe("estimateTravelMinutes", () => {
+  it("道のり係数と移動手段の速度から所要時間を見積もる", () => {
+    expect(estimateTravelMinutes(800, "walking")).toBeCloseTo(
+      (800 * ROUTE_DETOUR_FACTOR) / 80,
+    );
+    expect(estimateTravelMinutes(5000, "driving")).toBeCloseTo(
+      (5000 * ROUTE_DETOUR_FACTOR) / 500,
+    );
+  });
+});
+
+describe("planItinerary", () => {
+  const start = { latitude: 35, longitude: 136 };
+  // 経度0.01度（約910m）間隔で東へ並んだ地点
+  const candidates = [1, 2, 3, 4, 5].map((id) => ({
+    id,
+    latitude: 35,
+    longitude: 136 + id * 0.01,
+    priority: 0,
+  }));
+
+  it("持ち時間に収まる地点だけを選ぶ", () => {
+    const itinerary = planItinerary(candidates, start, {
+      budgetMinutes: 60,
+      dwellMinutes: 10,
+      mode: "walking",
+    });
+
+    expect(itinerary.stops.map((s) => s.point.id)).toEqual([1, 2]);
+    expect(itinerary.skipped).toHaveLength(3);
+    expect(itinerary.totalMinutes).toBeLessThanOrEqual(60);
+  });
+
+  it("到着・出発時刻は移動時間と見学時間を積み上げる", () => {
+    const itinerary = planItinerary(candidates, start, {
+      budgetMinutes: 600,
+      dwellMinutes: 10,
+      mode: "walking",
+    });
+
+    expect(itinerary.stops).toHaveLength(5);
+    let elapsed = 0;
+    for (const stop of itinerary.stops) {
+      expect(stop.arrivalMinutes).toBeCloseTo(elapsed + stop.travelMinutes);
+      expect(stop.departureMinutes).toBeCloseTo(stop.arrivalMinutes + 10);
+      elapsed = stop.departureMinutes;
+    }
+    expect(itinerary.totalMinutes).toBeCloseTo(elapsed);
+  });
+
+  it("優先度の高い地点を遠くても先に組み込む", () => {
+    const prioritized = candidates.map((c) =>
+      c.id === 5 ? { ...c, priority: 2 } : c,
+    );
+    const itinerary = planItinerary(prioritized, start, {
+      budgetMinutes: 100,
+      dwellMinutes: 10,
+      mode: "walking",
+    });
+
+    expect(itinerary.stops.map((s) => s.point.id)).toContain(5);
+  });
+
+  it("出発地点へ戻る時間も持ち時間に含める", () => {
+    const oneWay = planItinerary(candidates, start, {
+      budgetMinutes: 90,
+      dwellMinutes: 0,
+      mode: "walking",
+    });
+    const roundTrip = planItinerary(candidates, start, {
+      budgetMinutes: 90,
+      dwellMinutes: 0,
+      mode: "walking",
+      returnToStart: true,
+    });
+
+    expect(roundTrip.stops.length).toBeLessThan(oneWay.stops.length);
+    expect(roundTrip.returnMinutes).toBeGreaterThan(0);
+    expect(roundTrip.totalMinutes).toBeLessThanOrEqual(90);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  type LogRecord,
+  Logger,
+  runWithLogContext,
+  runWithLogSink,
+} from "../../src/logger.js";
+import { SingleFlight } from "../../src/single-flight.js";
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => {};
+  let reject: (reason: unknown) => void = () => {};
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("SingleFlight", () => {
+  it("実行中の同じキーの呼び出しは1回の処理の結果を共有する", async () => {
+    const flights = new SingleFlight();
+    const pending = deferred<string>();
+    let calls = 0;
+    const task = () => {
+      calls++;
+      return pending.promise;
+    };
+
+    const first = flights.run("a", task);
+    expect(flights.has("a")).toBe(true);
+    const second = flights.run("a", task);
+    pending.resolve("done");
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      "done",
+      "done",
+    ]);
+    expect(calls).toBe(1);
+    expect(flights.size).toBe(0);
+  });
+
+  it("エラーも共有し、完了後の呼び出しは新たに処理を開始する", async () => {
+    const flights = new SingleFlight();
+    const pending = deferred<string>();
+    let calls = 0;
+
+    const first = flights.run("a", () => {
+      calls++;
+      return pending.promise;
+    });
+    const second = flights.run("a", async () => "unused");
+    pending.reject(new Error("upstream down"));
+
+    await expect(first).rejects.toThrow("upstream down");
+    await expect(second).rejects.toThrow("upstream down");
+    await expect(flights.run("a", async () => "retry")).resolves.toBe("retry");
+    expect(calls).toBe(1);
+  });
+
+  it("異なるキーは別々に処理する", async () => {
+    const flights = new SingleFlight();
+
+    const results = await Promise.all([
+      flights.run("a", async () => "A"),
+      flights.run("b", async () => "B"),
+    ]);
+
+    expect(results).toEqual(["A", "B"]);
+  });
+
+  it("一部の呼び出し元が中断しても共有している処理は続ける", async () => {
+    const flights = new SingleFlight();
+    const pending = deferred<string>();
+    const controller = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+
+    const aborted = flights.run(
+      "a",
+      (signal) => {
+        taskSignal = signal;
+        return pending.promise;
+      },
+      controller.signal,
+    );
+    const other = flights.run("a", () => pending.promise);
+    controller.abort();
+    pending.resolve("done");
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(other).resolves.toBe("done");
+    expect(taskSignal?.aborted).toBe(false);
+  });
+
+  it("すべての呼び出し元が中断すると処理を中断し、次の呼び出しは合流しない", async () => {
+    const flights = new SingleFlight();
+    const first = new AbortController();
+    const second = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal) => {
+      taskSignal = signal;
+      return new Promise<string>(() => {});
+    };
+
+    const a = flights.run("a", task, first.signal);
+    const b = flights.run("a", task, second.signal);
+    first.abort();
+    expect(taskSignal?.aborted).toBe(false);
+    second.abort();
+
+    await expect(a).rejects.toMatchObject({ name: "AbortError" });
+    await expect(b).rejects.toMatchObject({ name: "AbortError" });
+    expect(taskSignal?.aborted).toBe(true);
+    expect(flights.has("a")).toBe(false);
+  });
+
+  it("共有している処理のログは待っている呼び出し元それぞれのコンテキストで渡す", async () => {
+    const flights = new SingleFlight();
+    const log = new Logger({ write: () => {} }).child({ module: "test" });
+    const pending = deferred<void>();
+    const received: Record<string, LogRecord[]> = { a: [], b: [] };
+    const join = (caller: "a" | "b") =>
+      runWithLogSink(
+        (record) => received[caller]?.push(record),
+        () =>
+          runWithLogContext({ caller }, () =>
+            flights.run("key", async () => {
+              await pending.promise;
+              log.info("共有した処理");
+            }),
+          ),
+      );
+
+    const a = join("a");
+    const b = join("b");
+    pending.resolve();
+    await Promise.all([a, b]);
+
+    expect(received.a?.map((r) => r.context)).toEqual([
+      { module: "test", caller: "a" },
+    ]);
+    expect(received.b?.map((r) => r.context)).toEqual([
+      { module: "test", caller: "b" },
+    ]);
+  });
+});
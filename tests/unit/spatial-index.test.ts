@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { MonumentSpatialIndex } from "../../src/spatial-index.js";
+import type { Monument } from "../../src/types.js";
+import { calculateDistance } from "../../src/utils.js";
+import { mockMonuments } from "../fixtures/mock-data.js";
+
+const template = mockMonuments[0] as Monument;
+const templateLocation = template.locations?.[0];
+
+function createMonument(
+  id: number,
+  latitude: number,
+  longitude: number,
+  prefecture = "三重県",
+): Monument {
+  return {
+    ...template,
+    id,
+    locations: templateLocation
+      ? [{ ...templateLocation, id, latitude, longitude, prefecture }]
+      : [],
+  };
+}
+
+// 再現性のある疑似乱数
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+const random = createRandom(42);
+const monuments = Array.from({ length: 500 }, (_, i) =>
+  createMonument(
+    i + 1,
+    34 + random() * 2,
+    135 + random() * 2,
+    i % 2 === 0 ? "三重県" : "愛知県",
+  ),
+);
+
+function bruteForce(latitude: number, longitude: number) {
+  return monuments
+    .map((monument) => {
+      const location = monument.locations?.[0];
+      return {
+        id: monument.id,
+        distance: calculateDistance(
+          latitude,
+          longitude,
+          location?.latitude ?? 0,
+          location?.longitude ?? 0,
+        ),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+describe("MonumentSpatialIndex", () => {
+  const index = new MonumentSpatialIndex(monuments);
+
+  it("座標のある句碑のみを登録する", () => {
+    const withoutLocation = { ...template, id: 999, locations: [] };
+    expect(new MonumentSpatialIndex([withoutLocation]).size).toBe(0);
+    expect(index.size).toBe(500);
+  });
+
+  it("半径検索の結果が全件走査と一致する", () => {
+    const expected = bruteForce(35, 136)
+      .filter((item) => item.distance <= 20000)
+      .map((item) => item.id);
+    const actual = index.withinRadius(35, 136, 20000).map((r) => r.monument.id);
+
+    expect(actual).toEqual(expected);
+  });
+
+  it("k近傍検索の結果が全件走査と一致する", () => {
+    for (const [latitude, longitude] of [
+      [35, 136],
+      [34.1, 135.2],
+      [33, 134],
+    ] as const) {
+      const expected = bruteForce(latitude, longitude)
+        .slice(0, 10)
+        .map((item) => item.id);
+      const actual = index
+        .nearest(latitude, longitude, 10)
+        .map((r) => r.monument.id);
+
+      expect(actual).toEqual(expected);
+    }
+  });
+
+  it("k近傍検索で最大距離と絞り込み条件を適用する", () => {
+    const results = index.nearest(35, 136, 50, {
+      maxDistance: 15000,
+      filter: (m) => m.locations?.[0]?.prefecture === "愛知県",
+    });
+
+    expect(results.length).toBeGreaterThan(0);
+    for (const result of results) {
+      expect(result.distance).toBeLessThanOrEqual(15000);
+      expect(result.monument.locations?.[0]?.prefecture).toBe("愛知県");
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
   formatDistance,
+  parseApiTimestamp,
   parseSeasonQuery,
   validateCoordinates,
 } from "../../src/utils.js";
@@ -92,4 +93,22 @@ describe("Utils", () => {
       expect(parseSeasonQuery("123")).toBe(null);
     });
   });
+
+  describe("parseApiTimestamp", () => {
+    it("空白区切りの日時と ISO 8601 を同じ時刻として解釈する", () => {
+      expect(parseApiTimestamp("2025-01-01 12:34:56")).toBe(
+        parseApiTimestamp("2025-01-01T12:34:56"),
+      );
+      expect(parseApiTimestamp("2025-01-01T00:00:00.000Z")).toBe(
+        Date.UTC(2025, 0, 1),
+      );
+    });
+
+    it("空の値や解釈できない値にNaNを返す", () => {
+      expect(parseApiTimestamp(null)).toBeNaN();
+      expect(parseApiTimestamp(undefined)).toBeNaN();
+      expect(parseApiTimestamp("")).toBeNaN();
+      expect(parseApiTimestamp("invalid")).toBeNaN();
+    });
+  });
 });